@@ -0,0 +1,309 @@
+import {ActionMode, getConfiguration} from './config';
+
+const mockInputs: Record<string, string> = {};
+const mockContext = {
+    ref: 'refs/heads/master',
+    payload: {} as Record<string, unknown>,
+    repo: {owner: 'org', repo: 'repo'},
+};
+const mockPullRequests: Record<number, unknown> = {};
+const mockGetPullRequest = jest.fn(async (params: Record<string, number>) => {
+    const pullRequest = mockPullRequests[params.pull_number];
+
+    if (!pullRequest) {
+        throw Error('Not Found');
+    }
+
+    return {data: pullRequest};
+});
+
+jest.mock('@actions/core', () => ({
+    getInput: (name: string) => mockInputs[name] ?? '',
+    getBooleanInput: (name: string) => mockInputs[name] === 'true',
+    getMultilineInput: (name: string) =>
+        (mockInputs[name] ?? '').split('\n').filter(Boolean),
+}));
+
+// The context is read lazily, mocks are hoisted above its initialization
+jest.mock('@actions/github', () => ({
+    get context() {
+        return mockContext;
+    },
+    getOctokit: () => ({rest: {pulls: {get: mockGetPullRequest}}}),
+}));
+
+const DEFAULT_INPUTS = {
+    SERVER_URL: 'https://weblate.test',
+    PROJECT: 'project',
+    FILE_FORMAT: 'i18next',
+    MASTER_BRANCH: 'master',
+    CONFIG_FILE: 'missing-weblate-config.yaml',
+    MAX_CONCURRENCY: '4',
+    MAX_RETRIES: '3',
+    RETRY_BASE_DELAY_MS: '1000',
+    RETRY_MAX_DELAY_MS: '30000',
+    TASK_TIMEOUT_MS: '600000',
+    TASK_POLL_INTERVAL_MS: '1000',
+    TASK_MAX_POLL_INTERVAL_MS: '10000',
+    CLEANUP_MIN_AGE_DAYS: '7',
+};
+
+const setInputs = (inputs: Record<string, string> = {}) => {
+    for (const name of Object.keys(mockInputs)) {
+        delete mockInputs[name];
+    }
+
+    Object.assign(mockInputs, DEFAULT_INPUTS, inputs);
+};
+
+const pushTo = (branchName: string) => {
+    mockContext.ref = `refs/heads/${branchName}`;
+    mockContext.payload = {
+        repository: {html_url: 'https://github.com/org/repo'},
+    };
+};
+
+type PullRequestOptions = {number?: number; state?: string; base?: string};
+
+const createPullRequest = ({
+    number = 12,
+    state = 'open',
+    base = 'master',
+}: PullRequestOptions = {}) => ({
+    number,
+    state,
+    head: {
+        ref: 'feature',
+        repo: {html_url: 'https://github.com/user/repo'},
+    },
+    base: {ref: base},
+    user: {login: 'user'},
+});
+
+const pullRequest = (options: PullRequestOptions = {}) => {
+    const data = createPullRequest(options);
+
+    mockContext.ref = `refs/pull/${data.number}/merge`;
+    mockContext.payload = {pull_request: data};
+};
+
+// Pull requests requested by PULL_REQUEST_NUMBER in manual runs
+const existingPullRequest = (options: PullRequestOptions = {}) => {
+    const data = createPullRequest(options);
+
+    mockPullRequests[data.number] = data;
+};
+
+describe('getConfiguration', () => {
+    beforeEach(() => {
+        setInputs();
+        mockGetPullRequest.mockClear();
+
+        for (const number of Object.keys(mockPullRequests)) {
+            delete mockPullRequests[Number(number)];
+        }
+    });
+
+    describe('mode', () => {
+        it('should sync the master branch on push', async () => {
+            pushTo('master');
+
+            expect((await getConfiguration()).mode).toBe(
+                ActionMode.SYNC_MASTER,
+            );
+        });
+
+        it('should validate open pull requests and remove closed ones', async () => {
+            pullRequest();
+            expect((await getConfiguration()).mode).toBe(
+                ActionMode.VALIDATE_PULL_REQUEST,
+            );
+
+            pullRequest({state: 'closed'});
+            expect((await getConfiguration()).mode).toBe(
+                ActionMode.REMOVE_BRANCH,
+            );
+        });
+
+        it('should fail on push to other branches without MODE', async () => {
+            pushTo('feature');
+
+            await expect(getConfiguration()).rejects.toThrow(
+                "The branch 'feature' doesn't match the master branch 'master' or SYNC_BRANCHES",
+            );
+        });
+
+        it('should fail on unknown MODE', async () => {
+            pushTo('master');
+            setInputs({MODE: 'SYNC'});
+
+            await expect(getConfiguration()).rejects.toThrow(
+                "Unknown mode 'SYNC'",
+            );
+        });
+
+        it('should require a pull request in pull request modes', async () => {
+            pushTo('feature');
+            setInputs({MODE: ActionMode.REMOVE_BRANCH});
+
+            await expect(getConfiguration()).rejects.toThrow(
+                "Mode 'REMOVE_BRANCH' requires a pull request",
+            );
+        });
+    });
+
+    describe('sync branches', () => {
+        it('should sync branches matching SYNC_BRANCHES globs', async () => {
+            pushTo('release/1.2');
+            setInputs({SYNC_BRANCHES: 'release/*, develop'});
+
+            const config = await getConfiguration();
+
+            expect(config.mode).toBe(ActionMode.SYNC_MASTER);
+            expect(config.branchName).toBe('release/1.2');
+            expect(config.syncBranches).toEqual([
+                'master',
+                'release/*',
+                'develop',
+            ]);
+        });
+
+        it('should fail on push to branches not matching SYNC_BRANCHES', async () => {
+            pushTo('feature/release');
+            setInputs({SYNC_BRANCHES: 'release/*'});
+
+            await expect(getConfiguration()).rejects.toThrow(
+                "The branch 'feature/release' doesn't match the master branch 'master' or SYNC_BRANCHES",
+            );
+        });
+
+        it('should use the sync branch of the pull request as the base branch', async () => {
+            pullRequest({base: 'release/1.2'});
+            setInputs({SYNC_BRANCHES: 'release/*'});
+
+            expect((await getConfiguration()).baseBranch).toBe('release/1.2');
+        });
+
+        it('should use the master branch as the base for other pull requests', async () => {
+            pullRequest({base: 'feature/base'});
+            setInputs({SYNC_BRANCHES: 'release/*'});
+            expect((await getConfiguration()).baseBranch).toBe('master');
+
+            pullRequest({base: 'release/1.2'});
+            setInputs();
+            expect((await getConfiguration()).baseBranch).toBe('master');
+        });
+
+        it('should use the sync branch of the pull request of PULL_REQUEST_NUMBER as the base branch', async () => {
+            pushTo('master');
+            existingPullRequest({number: 5, base: 'release/1.2'});
+            setInputs({
+                MODE: ActionMode.VALIDATE_PULL_REQUEST,
+                PULL_REQUEST_NUMBER: '5',
+                SYNC_BRANCHES: 'release/*',
+            });
+
+            const config = await getConfiguration();
+
+            expect(config.baseBranch).toBe('release/1.2');
+            expect(config.branchName).toBe('feature');
+        });
+    });
+
+    describe('resync', () => {
+        it('should resync the category of the branch without a pull request number', async () => {
+            pushTo('release');
+            setInputs({MODE: ActionMode.RESYNC_BRANCH});
+
+            const config = await getConfiguration();
+
+            expect(config.mode).toBe(ActionMode.RESYNC_BRANCH);
+            expect(config.branchName).toBe('release');
+            expect(config.pullRequestNumber).toBeUndefined();
+        });
+
+        it('should resync the category of the pull request from PULL_REQUEST_NUMBER', async () => {
+            pushTo('master');
+            existingPullRequest({number: 12});
+            setInputs({
+                MODE: ActionMode.RESYNC_BRANCH,
+                PULL_REQUEST_NUMBER: '12',
+            });
+
+            const config = await getConfiguration();
+
+            expect(config.mode).toBe(ActionMode.RESYNC_BRANCH);
+            expect(config.branchName).toBe('feature');
+            expect(config.pullRequestNumber).toBe(12);
+            expect(mockGetPullRequest).toHaveBeenCalledWith({
+                owner: 'org',
+                repo: 'repo',
+                pull_number: 12,
+            });
+        });
+
+        it('should resync the category of the pull request event', async () => {
+            pullRequest({number: 7});
+            setInputs({MODE: ActionMode.RESYNC_BRANCH});
+
+            const config = await getConfiguration();
+
+            expect(config.mode).toBe(ActionMode.RESYNC_BRANCH);
+            expect(config.branchName).toBe('feature');
+            expect(config.pullRequestNumber).toBe(7);
+        });
+
+        it('should fail on invalid PULL_REQUEST_NUMBER', async () => {
+            pushTo('feature');
+            setInputs({
+                MODE: ActionMode.RESYNC_BRANCH,
+                PULL_REQUEST_NUMBER: 'abc',
+            });
+
+            await expect(getConfiguration()).rejects.toThrow(
+                "Invalid pull request number 'abc' in PULL_REQUEST_NUMBER",
+            );
+        });
+    });
+
+    describe('dispatch', () => {
+        it('should use the pull request of PULL_REQUEST_NUMBER', async () => {
+            pushTo('master');
+            existingPullRequest({number: 5});
+            setInputs({
+                MODE: ActionMode.VALIDATE_PULL_REQUEST,
+                PULL_REQUEST_NUMBER: '5',
+            });
+
+            const config = await getConfiguration();
+
+            expect(config.mode).toBe(ActionMode.VALIDATE_PULL_REQUEST);
+            expect(config.branchName).toBe('feature');
+            expect(config.gitRepo).toBe('https://github.com/user/repo');
+            expect(config.pullRequestAuthor).toBe('user');
+            expect(config.pullRequestNumber).toBe(5);
+        });
+
+        it('should infer the mode from the state of the pull request', async () => {
+            pushTo('master');
+            existingPullRequest({number: 5, state: 'closed'});
+            setInputs({PULL_REQUEST_NUMBER: '5'});
+
+            expect((await getConfiguration()).mode).toBe(
+                ActionMode.REMOVE_BRANCH,
+            );
+        });
+
+        it('should fail when the pull request cannot be requested', async () => {
+            pushTo('master');
+            setInputs({
+                MODE: ActionMode.REMOVE_BRANCH,
+                PULL_REQUEST_NUMBER: '5',
+            });
+
+            await expect(getConfiguration()).rejects.toThrow(
+                'Failed to get pull request #5 of PULL_REQUEST_NUMBER: Not Found',
+            );
+        });
+    });
+});
@@ -1,12 +1,32 @@
-import {getInput} from '@actions/core';
-import {context} from '@actions/github';
+import {getBooleanInput, getInput, getMultilineInput} from '@actions/core';
+import {context, getOctokit} from '@actions/github';
+import {minimatch} from 'minimatch';
+import {getFileFormat} from './lib/formats';
+import {DEFAULT_LANGUAGE_REGEX, parseLanguageAliases} from './lib/languages';
+import type {LanguageAliases} from './lib/languages/languages';
+import {KEYSETS_LAYOUTS} from './lib/layouts';
+import type {KeysetsLayout} from './lib/layouts/layouts';
+import {loadRepositoryConfig} from './lib/repository-config';
+import type {RepositoryConfig} from './lib/repository-config/types';
+import type {RetryOptions} from './lib/weblate/retry';
+import type {TaskWaitOptions} from './lib/weblate/tasks';
 
 export enum ActionMode {
     VALIDATE_PULL_REQUEST = 'VALIDATE_PULL_REQUEST',
     SYNC_MASTER = 'SYNC_MASTER',
     REMOVE_BRANCH = 'REMOVE_BRANCH',
+    // Maintenance: removes the branch category and creates it from scratch
+    RESYNC_BRANCH = 'RESYNC_BRANCH',
+    // Maintenance: removes categories of closed pull requests
+    CLEANUP_PULL_REQUESTS = 'CLEANUP_PULL_REQUESTS',
 }
 
+// Modes that work with the category of a pull request
+const PULL_REQUEST_MODES = [
+    ActionMode.VALIDATE_PULL_REQUEST,
+    ActionMode.REMOVE_BRANCH,
+];
+
 export type Configuration = {
     mode: ActionMode;
     serverUrl: string;
@@ -14,13 +34,45 @@ export type Configuration = {
     project: string;
     branchName: string;
     fileFormat: string;
+    // Overrides the extension of keyset files of FILE_FORMAT
+    fileExtension?: string;
     mainLanguage: string;
+    // Filters language codes of translation files
+    languageRegex: string;
+    languageAliases: LanguageAliases;
     gitRepo: string;
     keysetsPath: string;
+    keysetsLayout: KeysetsLayout;
+    componentNameTemplate?: string;
+    // Components of each glob-matched directory go to a nested category
+    nestedCategories: boolean;
     masterBranch: string;
+    // Long-lived branches with their own categories (names or glob patterns)
+    syncBranches: string[];
+    // Branch whose category components are copied for the pull request
+    baseBranch: string;
     githubToken: string;
     pullRequestNumber?: number;
     pullRequestAuthor?: string;
+    repositoryConfig: RepositoryConfig;
+    dryRun: boolean;
+    planFile?: string;
+    cleanupMinAgeDays: number;
+    cleanupAllowlist: string[];
+    // Globs of application sources scanned for used keys, the scan is off when empty
+    sourceScanPaths: string[];
+    // Additional regular expressions of translation calls
+    sourceScanPatterns: string[];
+    // Names of Weblate checks listed in the pull request comment
+    qualityChecks: string[];
+    // Names of Weblate checks that fail the pull request
+    blockingChecks: string[];
+    // Retries of failed Weblate requests
+    retry: RetryOptions;
+    // Waiting for Weblate tasks of components (e.g., repository updates)
+    taskWait: TaskWaitOptions;
+    // Maximum number of simultaneous requests to Weblate and GitHub in bulk operations
+    maxConcurrency: number;
 };
 
 type PullRequest = {
@@ -31,7 +83,11 @@ type PullRequest = {
     draft: boolean;
     html_url: string;
     state: 'open' | 'closed';
+    base?: {
+        ref: string;
+    };
     head?: {
+        ref: string;
         repo?: {
             html_url: string;
             ssh_url: string;
@@ -42,29 +98,134 @@ type PullRequest = {
     };
 };
 
-function getBranchName(): string {
-    if (context.payload && context.payload.pull_request) {
-        return context.payload.pull_request.head.ref;
+function getBranchName(pullRequest?: PullRequest): string {
+    if (pullRequest?.head) {
+        return pullRequest.head.ref;
     }
 
     return context.ref.replace(/refs\/heads\/(.*)/, '$1');
 }
 
-export function getConfiguration(): Configuration {
-    const pullRequest = context.payload.pull_request
-        ? (context.payload.pull_request as PullRequest)
-        : undefined;
+// Splits input by new lines and commas
+function getListInput(name: string) {
+    return getInput(name)
+        .split(/[\n,]/)
+        .map(item => item.trim())
+        .filter(Boolean);
+}
+
+function getNumberInput(name: string) {
+    const value = getInput(name);
+    const number = Number(value);
+
+    if (!value || isNaN(number)) {
+        throw Error(`Invalid number '${value}' in ${name}`);
+    }
+
+    return number;
+}
+
+function isSyncBranch(branchName: string, syncBranches: string[]) {
+    return syncBranches.some(pattern => minimatch(branchName, pattern));
+}
+
+function getKeysetsLayoutInput(): KeysetsLayout {
+    const layout = getInput('KEYSETS_LAYOUT') || 'component-dir';
+
+    if (!KEYSETS_LAYOUTS.includes(layout as KeysetsLayout)) {
+        throw Error(
+            `Unknown keysets layout '${layout}'. Available layouts: ${KEYSETS_LAYOUTS.join(
+                ', ',
+            )}`,
+        );
+    }
+
+    return layout as KeysetsLayout;
+}
+
+function getModeInput(): ActionMode | undefined {
+    const modeInput = getInput('MODE');
+
+    if (!modeInput) {
+        return undefined;
+    }
+
+    const modes = Object.values(ActionMode) as string[];
+
+    if (!modes.includes(modeInput)) {
+        throw Error(
+            `Unknown mode '${modeInput}'. Available modes: ${modes.join(', ')}`,
+        );
+    }
+
+    return modeInput as ActionMode;
+}
+
+function getPullRequestNumberInput(): number | undefined {
+    const pullRequestNumberInput = getInput('PULL_REQUEST_NUMBER');
+
+    if (!pullRequestNumberInput) {
+        return undefined;
+    }
 
+    const pullRequestNumber = parseInt(pullRequestNumberInput, 10);
+
+    if (isNaN(pullRequestNumber)) {
+        throw Error(
+            `Invalid pull request number '${pullRequestNumberInput}' in PULL_REQUEST_NUMBER`,
+        );
+    }
+
+    return pullRequestNumber;
+}
+
+// Pull request of the event, manual runs request the one of PULL_REQUEST_NUMBER
+async function getPullRequest(): Promise<PullRequest | undefined> {
+    if (context.payload.pull_request) {
+        return context.payload.pull_request as PullRequest;
+    }
+
+    const pullRequestNumber = getPullRequestNumberInput();
+
+    if (pullRequestNumber === undefined) {
+        return undefined;
+    }
+
+    try {
+        const {data} = await getOctokit(
+            getInput('GITHUB_TOKEN'),
+        ).rest.pulls.get({
+            ...context.repo,
+            pull_number: pullRequestNumber,
+        });
+
+        return data as PullRequest;
+    } catch (error) {
+        throw Error(
+            `Failed to get pull request #${pullRequestNumber} of PULL_REQUEST_NUMBER: ${
+                (error as Error).message
+            }`,
+        );
+    }
+}
+
+export async function getConfiguration(): Promise<Configuration> {
+    const pullRequest = await getPullRequest();
+
+    const modeInput = getModeInput();
     let mode: ActionMode;
 
     const useSshConnectionToRepo = Boolean(
         getInput('USE_SSH_CONNECTION_TO_REPO'),
     );
     const masterBranch = getInput('MASTER_BRANCH');
-    const branchName = getBranchName();
+    const syncBranches = [masterBranch, ...getListInput('SYNC_BRANCHES')];
+    const branchName = getBranchName(pullRequest);
+    const pullRequestNumber = pullRequest?.number;
 
     let gitRepo: string | undefined;
     let pullRequestAuthor: string | undefined;
+    let baseBranch = masterBranch;
 
     if (pullRequest) {
         gitRepo = useSshConnectionToRepo
@@ -72,6 +233,14 @@ export function getConfiguration(): Configuration {
             : pullRequest?.head?.repo?.html_url;
 
         pullRequestAuthor = pullRequest.user?.login;
+
+        if (
+            pullRequest.base &&
+            isSyncBranch(pullRequest.base.ref, syncBranches)
+        ) {
+            baseBranch = pullRequest.base.ref;
+        }
+
         mode =
             pullRequest.state === 'closed'
                 ? ActionMode.REMOVE_BRANCH
@@ -81,32 +250,79 @@ export function getConfiguration(): Configuration {
             ? (context.payload.repository?.ssh_url as string | undefined)
             : context.payload.repository?.html_url;
 
-        if (branchName !== masterBranch) {
+        if (!modeInput && !isSyncBranch(branchName, syncBranches)) {
             throw Error(
-                `The branch '${branchName}' doesn't match the master branch '${masterBranch}'`,
+                `The branch '${branchName}' doesn't match the master branch '${masterBranch}' or SYNC_BRANCHES`,
             );
         }
 
         mode = ActionMode.SYNC_MASTER;
     }
 
+    if (modeInput) {
+        mode = modeInput;
+    }
+
+    if (PULL_REQUEST_MODES.includes(mode) && !pullRequestNumber) {
+        throw Error(
+            `Mode '${mode}' requires a pull request. Run the action on a pull request event or set PULL_REQUEST_NUMBER`,
+        );
+    }
+
     if (!gitRepo) {
         throw Error('Repository url for branch not found');
     }
 
+    const maxConcurrency = getNumberInput('MAX_CONCURRENCY');
+
+    if (!Number.isInteger(maxConcurrency) || maxConcurrency < 1) {
+        throw Error(
+            `Invalid MAX_CONCURRENCY '${maxConcurrency}', expected a positive integer`,
+        );
+    }
+
     return {
         mode,
         serverUrl: getInput('SERVER_URL'),
         token: getInput('TOKEN'),
         project: getInput('PROJECT'),
         branchName,
-        fileFormat: getInput('FILE_FORMAT'),
+        fileFormat: getFileFormat(getInput('FILE_FORMAT')).id,
+        fileExtension:
+            getInput('FILE_EXTENSION').replace(/^\./, '') || undefined,
         mainLanguage: getInput('MAIN_LANGUAGE'),
+        languageRegex: getInput('LANGUAGE_REGEX') || DEFAULT_LANGUAGE_REGEX,
+        languageAliases: parseLanguageAliases(getInput('LANGUAGE_ALIASES')),
         gitRepo,
-        pullRequestNumber: context.payload.pull_request?.number,
+        pullRequestNumber,
         keysetsPath: getInput('KEYSETS_PATH'),
+        keysetsLayout: getKeysetsLayoutInput(),
+        componentNameTemplate: getInput('COMPONENT_NAME_TEMPLATE') || undefined,
+        nestedCategories: getBooleanInput('NESTED_CATEGORIES'),
         masterBranch,
+        syncBranches,
+        baseBranch,
         githubToken: getInput('GITHUB_TOKEN'),
         pullRequestAuthor,
+        repositoryConfig: loadRepositoryConfig(getInput('CONFIG_FILE')),
+        dryRun: getBooleanInput('DRY_RUN'),
+        planFile: getInput('PLAN_FILE') || undefined,
+        cleanupMinAgeDays: getNumberInput('CLEANUP_MIN_AGE_DAYS'),
+        cleanupAllowlist: getListInput('CLEANUP_ALLOWLIST'),
+        sourceScanPaths: getListInput('SOURCE_SCAN_PATHS'),
+        sourceScanPatterns: getMultilineInput('SOURCE_SCAN_PATTERNS'),
+        qualityChecks: getListInput('QUALITY_CHECKS'),
+        blockingChecks: getListInput('BLOCKING_CHECKS'),
+        retry: {
+            maxRetries: getNumberInput('MAX_RETRIES'),
+            baseDelay: getNumberInput('RETRY_BASE_DELAY_MS'),
+            maxDelay: getNumberInput('RETRY_MAX_DELAY_MS'),
+        },
+        taskWait: {
+            timeout: getNumberInput('TASK_TIMEOUT_MS'),
+            pollInterval: getNumberInput('TASK_POLL_INTERVAL_MS'),
+            maxPollInterval: getNumberInput('TASK_MAX_POLL_INTERVAL_MS'),
+        },
+        maxConcurrency,
     };
 }
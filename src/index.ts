@@ -1,14 +1,29 @@
-import {setFailed} from '@actions/core';
+import fs from 'fs/promises';
+import {setFailed, setOutput} from '@actions/core';
 import {context, getOctokit} from '@actions/github';
 import {ActionMode, Configuration, getConfiguration} from './config';
 import {
+    cleanupPullRequestCategories,
+    createComponentCategories,
+    createComponentInCategory,
+    formatCleanupReport,
+    formatPlaceholderErrors,
+    formatPluralFormsErrors,
+    formatSourceKeysDiff,
     getComponentRepositoryErrors,
-    getUntranslatedComponentsError,
+    getPlaceholderErrors,
+    getPluralFormsErrors,
+    getResyncErrors,
+    getSourceKeysDiff,
+    getTranslationsReport,
     pullRemoteChanges,
     removeMissingComponents,
+    reportKeysUsage,
+    resolveComponentsInCode,
 } from './lib/logic';
-import {Weblate} from './lib/weblate';
-import {resolveComponents} from './utils';
+import {Plan} from './lib/plan';
+import {Weblate, WeblateError} from './lib/weblate';
+import {getPullRequestCategoryName} from './utils';
 
 type HandlerArgs = {
     config: Configuration;
@@ -17,6 +32,28 @@ type HandlerArgs = {
 
 type Handler = (args: HandlerArgs) => Promise<void>;
 
+// Comments of the dry run are only printed, the pull request is not changed
+const commentPullRequest = async ({
+    config,
+    octokit,
+    body,
+}: {
+    config: Configuration;
+    octokit: ReturnType<typeof getOctokit>;
+    body: string;
+}) => {
+    if (config.dryRun) {
+        console.log(`Dry run: pull request comment is not posted:\n${body}`);
+        return;
+    }
+
+    await octokit.rest.issues.createComment({
+        ...context.repo,
+        issue_number: config.pullRequestNumber as number,
+        body,
+    });
+};
+
 const syncMaster = async ({config, weblate}: HandlerArgs) => {
     console.log('\nsyncMaster');
     // Create category for master branch
@@ -34,12 +71,13 @@ const syncMaster = async ({config, weblate}: HandlerArgs) => {
         categoryWasRecentlyCreated,
     );
     if (!categoryWasRecentlyCreated) {
-        console.log('\ngetComponentsInCategory');
-        const weblateComponents = await weblate.getComponentsInCategory({
+        console.log('\ngetComponentsInCategoryTree');
+        const weblateComponents = await weblate.getComponentsInCategoryTree({
             categoryId,
+            categorySlug,
         });
         console.log(
-            '\n✅ getComponentsInCategory done \nweblateComponents:',
+            '\n✅ getComponentsInCategoryTree done \nweblateComponents:',
             weblateComponents,
         );
         const mainComponent = weblateComponents.find(
@@ -50,26 +88,21 @@ const syncMaster = async ({config, weblate}: HandlerArgs) => {
             console.log('\npullComponentRemoteChanges');
             await weblate.pullComponentRemoteChanges({
                 name: mainComponent.name,
-                categorySlug,
+                categorySlug: mainComponent.categorySlug,
             });
             console.log('\n✅ pullComponentRemoteChanges done');
-            await weblate.waitComponentsTasks({
-                componentNames: weblateComponents.map(({name}) => name),
-                categorySlug,
-            });
+            await weblate.waitComponentsTasks({components: weblateComponents});
             console.log('\n✅ waitComponentsTasks done');
         }
     }
 
     // Resolve components from file structure in master branch
-    const componentsInCode = await resolveComponents(
-        config.keysetsPath,
-        config.mainLanguage,
-    );
+    const componentsInCode = await resolveComponentsInCode(config);
     console.log(
         '\n✅ resolveComponents done \ncomponentsInCode:',
         componentsInCode,
     );
+    await reportKeysUsage({config, componentsInCode});
     const [firstComponent, ...otherComponents] = componentsInCode;
     console.log(
         '\nfirstComponent:',
@@ -77,18 +110,30 @@ const syncMaster = async ({config, weblate}: HandlerArgs) => {
         '\notherComponents:',
         otherComponents,
     );
-    // Creating first component for master branch
-    const firstWeblateComponent = await weblate.createComponent({
-        name: firstComponent.name,
-        fileMask: firstComponent.fileMask,
+    // Nested categories for groups of components
+    const getComponentCategory = await createComponentCategories({
+        weblate,
         categoryId,
         categorySlug,
-        repo: config.gitRepo,
-        branch: config.branchName,
-        source: firstComponent.source,
-        repoForUpdates: config.gitRepo,
-        applyAddons: 'main-branch',
+        groups: componentsInCode.map(({group}) => group),
     });
+    // Creating first component for master branch
+    const firstWeblateComponent = await createComponentInCategory(
+        weblate,
+        getComponentCategory(firstComponent.group),
+        {
+            name: firstComponent.name,
+            fileMask: firstComponent.fileMask,
+            repo: config.gitRepo,
+            branch: config.branchName,
+            source: firstComponent.source,
+            settings: firstComponent.settings,
+            repoForUpdates: config.gitRepo,
+            applyAddons: 'main-branch',
+            // Matching addons are skipped, so only stale ones are changed
+            reconcileAddons: true,
+        },
+    );
     console.log(
         '\n✅ createComponent done \nfirstWeblateComponent:',
         firstWeblateComponent,
@@ -96,22 +141,28 @@ const syncMaster = async ({config, weblate}: HandlerArgs) => {
     const mainComponent =
         (await weblate.getMainComponentInCategory({
             categoryId,
+            categorySlug,
         })) ?? firstWeblateComponent;
     console.log('\n✅ mainComponent found:', mainComponent);
     // Creating other components with a link to the first component
-    const createComponentsPromises = otherComponents.map(component =>
-        weblate.createComponent({
-            name: component.name,
-            fileMask: component.fileMask,
-            categoryId,
-            categorySlug,
-            repo: `weblate://${config.project}/${categorySlug}/${mainComponent.slug}`,
-            source: component.source,
-            applyAddons: 'main-branch',
-        }),
+    const otherWeblateComponents = await weblate.mapComponents(
+        'create',
+        otherComponents,
+        component =>
+            createComponentInCategory(
+                weblate,
+                getComponentCategory(component.group),
+                {
+                    name: component.name,
+                    fileMask: component.fileMask,
+                    repo: `weblate://${config.project}/${mainComponent.categorySlug}/${mainComponent.slug}`,
+                    source: component.source,
+                    settings: component.settings,
+                    applyAddons: 'main-branch',
+                    reconcileAddons: true,
+                },
+            ),
     );
-
-    const otherWeblateComponents = await Promise.all(createComponentsPromises);
     console.log('\notherWeblateComponents:', otherWeblateComponents);
     // Pulling changes to weblate from remote repository
     if (!categoryWasRecentlyCreated) {
@@ -120,7 +171,7 @@ const syncMaster = async ({config, weblate}: HandlerArgs) => {
         );
         await weblate.pullComponentRemoteChanges({
             name: mainComponent.name,
-            categorySlug,
+            categorySlug: mainComponent.categorySlug,
         });
     }
 
@@ -129,10 +180,7 @@ const syncMaster = async ({config, weblate}: HandlerArgs) => {
         ...otherWeblateComponents,
     ];
     console.log('\nweblateComponents:', weblateComponents);
-    await weblate.waitComponentsTasks({
-        componentNames: weblateComponents.map(({name}) => name),
-        categorySlug,
-    });
+    await weblate.waitComponentsTasks({components: weblateComponents});
     console.log('\n✅ waitComponentsTasks done');
     await removeMissingComponents({
         config,
@@ -146,61 +194,108 @@ const syncMaster = async ({config, weblate}: HandlerArgs) => {
 const validatePullRequest = async ({config, weblate}: HandlerArgs) => {
     const octokit = getOctokit(config.githubToken);
 
+    // Resolve components from file structure in feature branch
+    const componentsInCode = await resolveComponentsInCode(config);
+
+    console.log(
+        `✅ Resolved components in code ${config.keysetsPath}, ${config.mainLanguage}`,
+    );
+
+    await reportKeysUsage({config, componentsInCode});
+
+    const sourceKeysDiff = formatSourceKeysDiff(
+        await getSourceKeysDiff({config, octokit, componentsInCode}),
+    );
+
+    console.log(
+        sourceKeysDiff
+            ? `✅ Source keys diff with '${config.baseBranch}':\n${sourceKeysDiff}`
+            : `✅ Source keys are the same as in '${config.baseBranch}'`,
+    );
+
+    // Local checks fail before components are created in Weblate
+    const localCheckErrors = [
+        formatPluralFormsErrors(
+            await getPluralFormsErrors({config, componentsInCode}),
+        ),
+        formatPlaceholderErrors(
+            await getPlaceholderErrors({config, componentsInCode}),
+        ),
+    ].filter(Boolean);
+
+    if (localCheckErrors.length) {
+        const body = ['**i18n-check**', ...localCheckErrors].join('\n\n');
+
+        await commentPullRequest({config, octokit, body});
+
+        setFailed(body);
+        return;
+    }
+
     // Create category for feature branch
     const {
         id: categoryId,
         slug: categorySlug,
         wasRecentlyCreated: categoryWasRecentlyCreated,
     } = await weblate.createCategoryForBranch(
-        `${config.branchName}__${config.pullRequestNumber}`,
+        getPullRequestCategoryName(config.branchName, config.pullRequestNumber),
     );
 
     console.log(
         `✅ Created branch ${config.branchName}__${config.pullRequestNumber}`,
     );
 
-    // If the category was recently created, then we need to copy components from master branch
+    // If the category was recently created, then we need to copy components from base branch
     if (categoryWasRecentlyCreated) {
         const masterCategory = await weblate.findCategoryForBranch(
-            config.masterBranch,
+            config.baseBranch,
         );
 
         if (!masterCategory) {
-            setFailed(`Not found category for branch '${config.masterBranch}'`);
+            setFailed(`Not found category for branch '${config.baseBranch}'`);
             return;
         }
 
-        const masterComponents = await weblate.getComponentsInCategory({
+        const masterComponents = await weblate.getComponentsInCategoryTree({
             categoryId: masterCategory.id,
+            categorySlug: masterCategory.slug,
         });
 
         const mainMasterComponent =
             masterComponents.find(({linked_component}) => !linked_component) ||
             masterComponents[0];
 
-        const createdComponents = await Promise.all(
-            masterComponents.map(component =>
-                weblate.createComponent({
-                    name: `${component.name}__${config.pullRequestNumber}`,
-                    fileMask: component.filemask,
-                    categoryId,
-                    categorySlug,
-                    repo: `weblate://${config.project}/${masterCategory.slug}/${mainMasterComponent.slug}`,
-                    source: component.template,
-                    applyAddons: false,
-                    pullRequestAuthor: config.pullRequestAuthor,
-                    pullRequestNumber: config.pullRequestNumber,
-                }),
-            ),
+        const getCopyCategory = await createComponentCategories({
+            weblate,
+            categoryId,
+            categorySlug,
+            groups: masterComponents.map(({group}) => group),
+        });
+
+        const createdComponents = await weblate.mapComponents(
+            'copy',
+            masterComponents,
+            component =>
+                createComponentInCategory(
+                    weblate,
+                    getCopyCategory(component.group),
+                    {
+                        name: `${component.name}__${config.pullRequestNumber}`,
+                        fileMask: component.filemask,
+                        repo: `weblate://${config.project}/${mainMasterComponent.categorySlug}/${mainMasterComponent.slug}`,
+                        // Components of bilingual formats have no template
+                        source: component.template || component.new_base || '',
+                        applyAddons: false,
+                        pullRequestAuthor: config.pullRequestAuthor,
+                        pullRequestNumber: config.pullRequestNumber,
+                    },
+                ),
         );
 
         console.log(`✅ Created components`);
 
         // Wait repository update
-        await weblate.waitComponentsTasks({
-            componentNames: createdComponents.map(({name}) => name),
-            categorySlug,
-        });
+        await weblate.waitComponentsTasks({components: createdComponents});
     } else {
         const {mergeFailureMessage} = await pullRemoteChanges({
             weblate,
@@ -210,9 +305,9 @@ const validatePullRequest = async ({config, weblate}: HandlerArgs) => {
         });
 
         if (mergeFailureMessage) {
-            await octokit.rest.issues.createComment({
-                ...context.repo,
-                issue_number: config.pullRequestNumber as number,
+            await commentPullRequest({
+                config,
+                octokit,
                 body: mergeFailureMessage,
             });
 
@@ -221,50 +316,56 @@ const validatePullRequest = async ({config, weblate}: HandlerArgs) => {
         }
     }
 
-    // Resolve components from file structure in feature branch
-    const componentsInCode = await resolveComponents(
-        config.keysetsPath,
-        config.mainLanguage,
-    );
     const [firstComponent, ...otherComponents] = componentsInCode;
 
-    console.log(
-        `✅ Resolved components in code ${config.keysetsPath}, ${config.mainLanguage}`,
-    );
-
-    // Creating first component for feature branch
-    const firstWeblateComponent = await weblate.createComponent({
-        name: `${firstComponent.name}__${config.pullRequestNumber}`,
-        fileMask: firstComponent.fileMask,
+    // Nested categories for groups of components
+    const getComponentCategory = await createComponentCategories({
+        weblate,
         categoryId,
         categorySlug,
-        repo: config.gitRepo,
-        branch: config.branchName,
-        source: firstComponent.source,
-        repoForUpdates: config.gitRepo,
-        pullRequestAuthor: config.pullRequestAuthor,
-        pullRequestNumber: config.pullRequestNumber,
-        updateIfExist: categoryWasRecentlyCreated,
+        groups: componentsInCode.map(({group}) => group),
     });
 
-    console.log(`✅ Created components`);
-
-    // Creating other components with a link to the first component
-    const createComponentsPromises = otherComponents.map(component =>
-        weblate.createComponent({
-            name: `${component.name}__${config.pullRequestNumber}`,
-            fileMask: component.fileMask,
-            categoryId,
-            categorySlug,
-            repo: `weblate://${config.project}/${categorySlug}/${firstWeblateComponent.slug}`,
-            source: component.source,
+    // Creating first component for feature branch
+    const firstWeblateComponent = await createComponentInCategory(
+        weblate,
+        getComponentCategory(firstComponent.group),
+        {
+            name: `${firstComponent.name}__${config.pullRequestNumber}`,
+            fileMask: firstComponent.fileMask,
+            repo: config.gitRepo,
+            branch: config.branchName,
+            source: firstComponent.source,
+            settings: firstComponent.settings,
+            repoForUpdates: config.gitRepo,
             pullRequestAuthor: config.pullRequestAuthor,
             pullRequestNumber: config.pullRequestNumber,
             updateIfExist: categoryWasRecentlyCreated,
-        }),
+        },
     );
 
-    const otherWeblateComponents = await Promise.all(createComponentsPromises);
+    console.log(`✅ Created components`);
+
+    // Creating other components with a link to the first component
+    const otherWeblateComponents = await weblate.mapComponents(
+        'create',
+        otherComponents,
+        component =>
+            createComponentInCategory(
+                weblate,
+                getComponentCategory(component.group),
+                {
+                    name: `${component.name}__${config.pullRequestNumber}`,
+                    fileMask: component.fileMask,
+                    repo: `weblate://${config.project}/${firstWeblateComponent.categorySlug}/${firstWeblateComponent.slug}`,
+                    source: component.source,
+                    settings: component.settings,
+                    pullRequestAuthor: config.pullRequestAuthor,
+                    pullRequestNumber: config.pullRequestNumber,
+                    updateIfExist: categoryWasRecentlyCreated,
+                },
+            ),
+    );
 
     const weblateComponents = [
         firstWeblateComponent,
@@ -275,15 +376,12 @@ const validatePullRequest = async ({config, weblate}: HandlerArgs) => {
     if (!categoryWasRecentlyCreated) {
         await weblate.pullComponentRemoteChanges({
             name: firstWeblateComponent.name,
-            categorySlug,
+            categorySlug: firstWeblateComponent.categorySlug,
         });
     }
 
     // Wait repository update
-    await weblate.waitComponentsTasks({
-        componentNames: weblateComponents.map(({name}) => name),
-        categorySlug,
-    });
+    await weblate.waitComponentsTasks({components: weblateComponents});
 
     await removeMissingComponents({
         config,
@@ -293,17 +391,22 @@ const validatePullRequest = async ({config, weblate}: HandlerArgs) => {
         componentsInCode,
     });
 
+    // Components were not really created, nothing to check
+    if (config.dryRun) {
+        return;
+    }
+
     const repositoryErrors = await getComponentRepositoryErrors({
         name: firstWeblateComponent.name,
-        categorySlug,
+        categorySlug: firstWeblateComponent.categorySlug,
         config,
         weblate,
     });
 
     if (repositoryErrors.mergeFailureError) {
-        await octokit.rest.issues.createComment({
-            ...context.repo,
-            issue_number: config.pullRequestNumber as number,
+        await commentPullRequest({
+            config,
+            octokit,
             body: repositoryErrors.mergeFailureError,
         });
 
@@ -312,9 +415,9 @@ const validatePullRequest = async ({config, weblate}: HandlerArgs) => {
     }
 
     if (repositoryErrors.needsCommitError) {
-        await octokit.rest.issues.createComment({
-            ...context.repo,
-            issue_number: config.pullRequestNumber as number,
+        await commentPullRequest({
+            config,
+            octokit,
             body: repositoryErrors.needsCommitError,
         });
 
@@ -323,9 +426,9 @@ const validatePullRequest = async ({config, weblate}: HandlerArgs) => {
     }
 
     if (repositoryErrors.needsPushError) {
-        await octokit.rest.issues.createComment({
-            ...context.repo,
-            issue_number: config.pullRequestNumber as number,
+        await commentPullRequest({
+            config,
+            octokit,
             body: repositoryErrors.needsPushError,
         });
 
@@ -333,27 +436,34 @@ const validatePullRequest = async ({config, weblate}: HandlerArgs) => {
         return;
     }
 
-    const untranslatedComponentsError = await getUntranslatedComponentsError({
+    const translationsReport = await getTranslationsReport({
         components: weblateComponents,
-        categorySlug,
         weblate,
+        sourceKeysDiff,
+        gating: config.repositoryConfig.gating,
+        qualityChecks: config.qualityChecks,
+        blockingChecks: config.blockingChecks,
     });
 
-    if (untranslatedComponentsError) {
-        await octokit.rest.issues.createComment({
-            ...context.repo,
-            issue_number: config.pullRequestNumber as number,
-            body: untranslatedComponentsError,
+    if (translationsReport) {
+        await commentPullRequest({
+            config,
+            octokit,
+            body: translationsReport.comment,
         });
 
-        setFailed(untranslatedComponentsError);
-        return;
+        if (translationsReport.blocking) {
+            setFailed(translationsReport.comment);
+            return;
+        }
+
+        console.log(translationsReport.comment);
     }
 };
 
 const removeBranch = async ({config, weblate}: HandlerArgs) => {
     const category = await weblate.findCategoryForBranch(
-        `${config.branchName}__${config.pullRequestNumber}`,
+        getPullRequestCategoryName(config.branchName, config.pullRequestNumber),
     );
 
     if (!category) {
@@ -363,9 +473,73 @@ const removeBranch = async ({config, weblate}: HandlerArgs) => {
         return;
     }
 
-    await weblate.removeCategory(category.id);
-    console.log(
-        `Branch '${config.branchName}__${config.pullRequestNumber}' removed from Weblate.`,
+    await weblate.removeCategory(category.id, category.name);
+
+    if (!config.dryRun) {
+        console.log(
+            `Branch '${config.branchName}__${config.pullRequestNumber}' removed from Weblate.`,
+        );
+    }
+};
+
+const resyncBranch = async ({config, weblate}: HandlerArgs) => {
+    const categoryName = config.pullRequestNumber
+        ? getPullRequestCategoryName(
+              config.branchName,
+              config.pullRequestNumber,
+          )
+        : config.branchName;
+
+    const category = await weblate.findCategoryForBranch(categoryName);
+
+    if (category) {
+        // Removing the category loses changes not pushed from Weblate
+        const resyncErrors = await getResyncErrors({config, weblate, category});
+
+        if (resyncErrors.length) {
+            setFailed(
+                [
+                    `Category '${categoryName}' can't be removed:`,
+                    ...resyncErrors.map(error => `- ${error}`),
+                ].join('\n'),
+            );
+            return;
+        }
+
+        await weblate.removeCategory(category.id, category.name);
+
+        if (!config.dryRun) {
+            console.log(`Category '${categoryName}' removed from Weblate.`);
+        }
+    } else {
+        console.log(`Category '${categoryName}' not found in Weblate.`);
+    }
+
+    if (config.pullRequestNumber) {
+        await validatePullRequest({config, weblate});
+    } else {
+        await syncMaster({config, weblate});
+    }
+};
+
+const cleanupPullRequests = async ({config, weblate}: HandlerArgs) => {
+    const octokit = getOctokit(config.githubToken);
+
+    const report = await cleanupPullRequestCategories({
+        config,
+        weblate,
+        octokit,
+    });
+
+    console.log(formatCleanupReport(report, config.dryRun));
+
+    setOutput(
+        'removed_categories',
+        JSON.stringify(
+            report
+                .filter(({status}) => status === 'removed')
+                .map(({category}) => category),
+        ),
     );
 };
 
@@ -373,26 +547,64 @@ const modeToHandler: Record<ActionMode, Handler> = {
     [ActionMode.SYNC_MASTER]: syncMaster,
     [ActionMode.VALIDATE_PULL_REQUEST]: validatePullRequest,
     [ActionMode.REMOVE_BRANCH]: removeBranch,
+    [ActionMode.RESYNC_BRANCH]: resyncBranch,
+    [ActionMode.CLEANUP_PULL_REQUESTS]: cleanupPullRequests,
+};
+
+const reportError = (error: unknown) => {
+    // The response explains what was wrong with the request
+    if (error instanceof WeblateError && error.body !== undefined) {
+        console.error(
+            `Weblate response body:\n${JSON.stringify(error.body, null, 4)}`,
+        );
+    }
+
+    setFailed(error instanceof Error ? error.message : String(error));
 };
 
 async function run() {
-    const config = getConfiguration();
+    try {
+        const config = await getConfiguration();
+
+        console.log('Config:');
+        console.log(JSON.stringify(config, null, 4));
+
+        const plan = config.dryRun ? new Plan() : undefined;
+
+        const weblate = new Weblate({
+            token: config.token,
+            serverUrl: config.serverUrl,
+            project: config.project,
+            fileFormat: config.fileFormat,
+            mainLanguage: config.mainLanguage,
+            languageRegex: config.languageRegex,
+            languageAliases: config.languageAliases,
+            retry: config.retry,
+            taskWait: config.taskWait,
+            maxConcurrency: config.maxConcurrency,
+            addons: config.repositoryConfig.addons,
+            plan,
+        });
 
-    console.log('Config:');
-    console.log(JSON.stringify(config, null, 4));
+        await modeToHandler[config.mode]({
+            config,
+            weblate,
+        });
 
-    const weblate = new Weblate({
-        token: config.token,
-        serverUrl: config.serverUrl,
-        project: config.project,
-        fileFormat: config.fileFormat,
-        mainLanguage: config.mainLanguage,
-    });
+        if (plan) {
+            const planJson = JSON.stringify(plan.toJSON(), null, 4);
 
-    await modeToHandler[config.mode]({
-        config,
-        weblate,
-    });
+            console.log(`\n${plan.format()}`);
+            setOutput('plan', planJson);
+
+            if (config.planFile) {
+                await fs.writeFile(config.planFile, planJson);
+                console.log(`\nPlan written to ${config.planFile}`);
+            }
+        }
+    } catch (error) {
+        reportError(error);
+    }
 }
 
 run();
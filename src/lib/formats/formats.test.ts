@@ -0,0 +1,27 @@
+import {getFileFormat} from './formats';
+
+describe('getFileFormat', () => {
+    it('should resolve aliases of formats', () => {
+        expect(getFileFormat('android')).toMatchObject({
+            id: 'aresource',
+            extension: 'xml',
+        });
+    });
+
+    it('should pass other Weblate formats through', () => {
+        expect(getFileFormat('csv')).toEqual({
+            id: 'csv',
+            extension: 'json',
+            bilingual: false,
+            addons: [],
+        });
+        expect(getFileFormat('csv', 'csv').extension).toBe('csv');
+    });
+
+    it('should override the extension of known formats', () => {
+        expect(getFileFormat('yaml', 'yaml')).toMatchObject({
+            id: 'yaml',
+            extension: 'yaml',
+        });
+    });
+});
@@ -0,0 +1,106 @@
+import type {AddonSettings} from '../repository-config/types';
+
+export type FileFormat = {
+    // Format id in Weblate
+    id: string;
+    extension: string;
+    // Bilingual files store source strings in every translation,
+    // monolingual ones need the source language file as a template
+    bilingual: boolean;
+    // Addons that keep files of the format consistent
+    addons: AddonSettings[];
+};
+
+const JSON_ADDONS: AddonSettings[] = [
+    {
+        name: 'weblate.json.customize',
+        configuration: {
+            sort_keys: 1,
+            style: 'spaces',
+            indent: 2,
+        },
+    },
+];
+
+const GETTEXT_ADDONS: AddonSettings[] = [
+    {
+        name: 'weblate.gettext.customize',
+        configuration: {
+            width: 77,
+        },
+    },
+];
+
+const YAML_ADDONS: AddonSettings[] = [
+    {
+        name: 'weblate.yaml.customize',
+        configuration: {
+            indent: 2,
+            width: 80,
+            line_break: 'unix',
+        },
+    },
+];
+
+const FILE_FORMATS: FileFormat[] = [
+    {id: 'i18next', extension: 'json', bilingual: false, addons: JSON_ADDONS},
+    {id: 'json', extension: 'json', bilingual: false, addons: JSON_ADDONS},
+    {
+        id: 'json-nested',
+        extension: 'json',
+        bilingual: false,
+        addons: JSON_ADDONS,
+    },
+    {id: 'po', extension: 'po', bilingual: true, addons: GETTEXT_ADDONS},
+    {id: 'po-mono', extension: 'po', bilingual: false, addons: GETTEXT_ADDONS},
+    {id: 'xliff', extension: 'xliff', bilingual: true, addons: []},
+    {id: 'yaml', extension: 'yml', bilingual: false, addons: YAML_ADDONS},
+    {id: 'ruby-yaml', extension: 'yml', bilingual: false, addons: YAML_ADDONS},
+    {id: 'aresource', extension: 'xml', bilingual: false, addons: []},
+    {
+        id: 'properties',
+        extension: 'properties',
+        bilingual: false,
+        addons: [{name: 'weblate.properties.sort'}],
+    },
+];
+
+// Common names of formats that differ from Weblate ids
+const FILE_FORMAT_ALIASES: Record<string, string> = {
+    android: 'aresource',
+    gettext: 'po',
+};
+
+export const FILE_FORMAT_NAMES = [
+    ...FILE_FORMATS.map(({id}) => id),
+    ...Object.keys(FILE_FORMAT_ALIASES),
+];
+
+// Addons the action installs for some of the formats
+export const FILE_FORMAT_ADDON_NAMES = [
+    ...new Set(
+        FILE_FORMATS.flatMap(({addons}) => addons.map(({name}) => name)),
+    ),
+];
+
+// Extension of keyset files of formats unknown to the action
+const DEFAULT_EXTENSION = 'json';
+
+/**
+ * Returns the file format by its name, other Weblate formats are passed through
+ *
+ * @param name - Weblate format id or its alias (e.g., "android")
+ * @param extension - Overrides the extension of keyset files
+ * @returns File format
+ */
+export const getFileFormat = (name: string, extension?: string): FileFormat => {
+    const id = FILE_FORMAT_ALIASES[name] ?? name;
+    const fileFormat = FILE_FORMATS.find(format => format.id === id) ?? {
+        id,
+        extension: DEFAULT_EXTENSION,
+        bilingual: false,
+        addons: [],
+    };
+
+    return extension ? {...fileFormat, extension} : fileFormat;
+};
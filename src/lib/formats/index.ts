@@ -0,0 +1,5 @@
+export {
+    FILE_FORMAT_ADDON_NAMES,
+    FILE_FORMAT_NAMES,
+    getFileFormat,
+} from './formats';
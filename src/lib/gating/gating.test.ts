@@ -0,0 +1,95 @@
+import {getGatingViolations, getLanguageThresholds} from './gating';
+import type {ComponentTranslationStats} from '../weblate/types';
+
+const createStats = (
+    stats: Partial<ComponentTranslationStats>,
+): ComponentTranslationStats => ({
+    total: 10,
+    total_words: 10,
+    total_chars: 100,
+    translated: 10,
+    translated_words: 10,
+    translated_percent: 100,
+    translated_words_percent: 100,
+    translated_chars: 100,
+    translated_chars_percent: 100,
+    fuzzy: 0,
+    fuzzy_percent: 0,
+    failing: 0,
+    failing_percent: 0,
+    approved: 10,
+    approved_percent: 100,
+    code: 'de',
+    name: 'German',
+    url: 'https://weblate.test/projects/project/common/de/',
+    ...stats,
+});
+
+describe('getLanguageThresholds', () => {
+    const policy = {
+        approved_percent: 100,
+        languages: {
+            'pt-BR': {approved_percent: 50},
+            fr: {blocking: false},
+        },
+    };
+
+    it('should require translated strings without the policy', () => {
+        expect(getLanguageThresholds({}, 'de')).toEqual({
+            translated_percent: 100,
+            blocking: true,
+        });
+    });
+
+    it('should merge common and language thresholds', () => {
+        expect(getLanguageThresholds(policy, 'de')).toEqual({
+            translated_percent: 100,
+            approved_percent: 100,
+            blocking: true,
+        });
+        expect(getLanguageThresholds(policy, 'fr')).toMatchObject({
+            approved_percent: 100,
+            blocking: false,
+        });
+    });
+
+    it('should match language codes of Weblate', () => {
+        expect(getLanguageThresholds(policy, 'pt_BR')).toMatchObject({
+            approved_percent: 50,
+        });
+    });
+});
+
+describe('getGatingViolations', () => {
+    it('should pass translations meeting the thresholds', () => {
+        expect(
+            getGatingViolations(createStats({approved_percent: 0}), {
+                translated_percent: 100,
+            }),
+        ).toEqual([]);
+    });
+
+    it('should describe every violated threshold', () => {
+        expect(
+            getGatingViolations(
+                createStats({
+                    translated_percent: 90,
+                    approved_percent: 80,
+                    fuzzy: 1,
+                    failing: 3,
+                }),
+                {
+                    translated_percent: 100,
+                    approved_percent: 100,
+                    max_fuzzy: 0,
+                    max_failing: 2,
+                },
+            ),
+        ).toEqual([
+            'translated 90% < 100%',
+            'approved 80% < 100%',
+            '1 fuzzy > 0',
+            '3 failing checks > 2',
+        ]);
+    });
+});
@@ -0,0 +1,84 @@
+import type {GatingPolicy, GatingThresholds} from '../repository-config/types';
+import type {ComponentTranslationStats} from '../weblate/types';
+
+// Without the policy every string of every language must be translated
+export const DEFAULT_GATING_THRESHOLDS: GatingThresholds = {
+    translated_percent: 100,
+    blocking: true,
+};
+
+// "pt-BR" in the config matches "pt_BR" in Weblate
+const normalizeLanguage = (language: string) =>
+    language.toLowerCase().replace(/-/g, '_');
+
+/**
+ * Returns thresholds for translations of the language
+ *
+ * @param policy - Gating policy from the config file
+ * @param language - Weblate language code of the translation
+ * @returns Default thresholds merged with the common and the language ones
+ */
+export const getLanguageThresholds = (
+    policy: GatingPolicy,
+    language: string,
+): GatingThresholds => {
+    const {languages = {}, ...thresholds} = policy;
+    const languageThresholds = Object.entries(languages).find(
+        ([code]) => normalizeLanguage(code) === normalizeLanguage(language),
+    )?.[1];
+
+    return {
+        ...DEFAULT_GATING_THRESHOLDS,
+        ...thresholds,
+        ...languageThresholds,
+    };
+};
+
+/**
+ * Compares statistics of the translation with the thresholds
+ *
+ * @param stats - Statistics of the translation
+ * @param thresholds - Result of getLanguageThresholds
+ * @returns Descriptions of violated thresholds (e.g., "approved 80% < 100%")
+ */
+export const getGatingViolations = (
+    stats: ComponentTranslationStats,
+    thresholds: GatingThresholds,
+) => {
+    const violations: string[] = [];
+
+    const checkPercent = (
+        label: string,
+        value: number,
+        minimum: number | undefined,
+    ) => {
+        if (minimum !== undefined && value < minimum) {
+            violations.push(`${label} ${value}% < ${minimum}%`);
+        }
+    };
+
+    const checkCount = (
+        label: string,
+        value: number,
+        maximum: number | undefined,
+    ) => {
+        if (maximum !== undefined && value > maximum) {
+            violations.push(`${value} ${label} > ${maximum}`);
+        }
+    };
+
+    checkPercent(
+        'translated',
+        stats.translated_percent,
+        thresholds.translated_percent,
+    );
+    checkPercent(
+        'approved',
+        stats.approved_percent,
+        thresholds.approved_percent,
+    );
+    checkCount('fuzzy', stats.fuzzy, thresholds.max_fuzzy);
+    checkCount('failing checks', stats.failing, thresholds.max_failing);
+
+    return violations;
+};
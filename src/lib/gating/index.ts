@@ -0,0 +1,5 @@
+export {
+    DEFAULT_GATING_THRESHOLDS,
+    getGatingViolations,
+    getLanguageThresholds,
+} from './gating';
@@ -0,0 +1,8 @@
+export {
+    PLURAL_CATEGORIES,
+    diffKeysets,
+    isEmptyKeysetDiff,
+    parseKeyset,
+    splitPluralKey,
+} from './keysets';
+export {findKeysetSyntaxErrors} from './syntax';
@@ -0,0 +1,47 @@
+import {diffKeysets, parseKeyset} from './keysets';
+
+describe('parseKeyset', () => {
+    it('should flatten nested JSON keys', () => {
+        expect(
+            parseKeyset(
+                JSON.stringify({title: 'Title', button: {save: 'Save'}}),
+                'i18next',
+            ),
+        ).toEqual({title: 'Title', 'button.save': 'Save'});
+    });
+
+    it('should parse YAML and properties files', () => {
+        expect(parseKeyset('button:\n  save: Save\n', 'yaml')).toEqual({
+            'button.save': 'Save',
+        });
+        expect(
+            parseKeyset(
+                '# comment\nbutton.save = Save\ntitle:Title\n',
+                'properties',
+            ),
+        ).toEqual({'button.save': 'Save', title: 'Title'});
+    });
+
+    it('should return undefined for unsupported formats', () => {
+        expect(parseKeyset('msgid "Save"', 'po')).toBeUndefined();
+    });
+});
+
+describe('diffKeysets', () => {
+    it('should list added, removed and changed keys', () => {
+        expect(
+            diffKeysets(
+                {save: 'Save', cancel: 'Cancel', title: 'Title'},
+                {title: 'New title', save: 'Save', close: 'Close'},
+            ),
+        ).toEqual({added: ['close'], removed: ['cancel'], changed: ['title']});
+    });
+
+    it('should not treat prototype properties as existing keys', () => {
+        expect(diffKeysets({}, {toString: 'To string'})).toEqual({
+            added: ['toString'],
+            removed: [],
+            changed: [],
+        });
+    });
+});
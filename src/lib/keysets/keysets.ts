@@ -0,0 +1,121 @@
+import yaml from 'js-yaml';
+import type {Keyset, KeysetDiff} from './types';
+
+const JSON_FORMATS = ['i18next', 'json', 'json-nested'];
+const YAML_FORMATS = ['yaml', 'ruby-yaml'];
+
+// Suffixes of i18next plural keys, e.g. "item_one", "item_few"
+export const PLURAL_CATEGORIES: Intl.LDMLPluralRule[] = [
+    'zero',
+    'one',
+    'two',
+    'few',
+    'many',
+    'other',
+];
+
+/**
+ * Splits the i18next plural key into the base key and the plural category
+ *
+ * @param key - Key of the keyset (e.g., "item_few")
+ * @returns Base key and category or undefined if the key has no plural suffix
+ */
+export const splitPluralKey = (key: string) => {
+    const match = key.match(/^(.+)_(zero|one|two|few|many|other)$/);
+
+    return match
+        ? {base: match[1], category: match[2] as Intl.LDMLPluralRule}
+        : undefined;
+};
+
+const hasKey = (keyset: Keyset, key: string) =>
+    Object.prototype.hasOwnProperty.call(keyset, key);
+
+const flattenKeyset = (value: unknown, prefix = ''): Keyset => {
+    if (typeof value !== 'object' || value === null) {
+        return prefix
+            ? {[prefix]: value === undefined ? '' : String(value)}
+            : {};
+    }
+
+    return Object.entries(value).reduce<Keyset>(
+        (result, [key, nestedValue]) => ({
+            ...result,
+            ...flattenKeyset(nestedValue, prefix ? `${prefix}.${key}` : key),
+        }),
+        {},
+    );
+};
+
+const parseProperties = (content: string) => {
+    const result: Keyset = {};
+
+    for (const line of content.split(/\r?\n/)) {
+        const trimmedLine = line.trim();
+
+        if (
+            !trimmedLine ||
+            trimmedLine.startsWith('#') ||
+            trimmedLine.startsWith('!')
+        ) {
+            continue;
+        }
+
+        const [, key, value = ''] =
+            trimmedLine.match(/^(.+?)\s*[=:]\s*(.*)$/) ?? [];
+
+        result[key ?? trimmedLine] = value;
+    }
+
+    return result;
+};
+
+/**
+ * Parses the content of the keyset file into a flat map of keys
+ *
+ * @param content - Content of the keyset file
+ * @param fileFormat - Weblate file format id (e.g., "i18next")
+ * @returns Source strings by keys or undefined if the format is not supported
+ */
+export const parseKeyset = (
+    content: string,
+    fileFormat: string,
+): Keyset | undefined => {
+    if (JSON_FORMATS.includes(fileFormat)) {
+        return flattenKeyset(JSON.parse(content));
+    }
+
+    if (YAML_FORMATS.includes(fileFormat)) {
+        return flattenKeyset(yaml.load(content));
+    }
+
+    if (fileFormat === 'properties') {
+        return parseProperties(content);
+    }
+
+    return undefined;
+};
+
+/**
+ * Compares source strings of two versions of the keyset
+ *
+ * @param base - Keyset of the base branch
+ * @param head - Keyset of the pull request
+ * @returns Sorted added, removed and changed keys
+ */
+export const diffKeysets = (base: Keyset, head: Keyset): KeysetDiff => {
+    const headKeys = Object.keys(head).sort();
+
+    return {
+        added: headKeys.filter(key => !hasKey(base, key)),
+        removed: Object.keys(base)
+            .sort()
+            .filter(key => !hasKey(head, key)),
+        changed: headKeys.filter(
+            key => hasKey(base, key) && base[key] !== head[key],
+        ),
+    };
+};
+
+export const isEmptyKeysetDiff = ({added, removed, changed}: KeysetDiff) =>
+    !added.length && !removed.length && !changed.length;
@@ -0,0 +1,53 @@
+import {findKeysetSyntaxErrors} from './syntax';
+
+describe('findKeysetSyntaxErrors', () => {
+    it('should accept valid JSON', () => {
+        expect(
+            findKeysetSyntaxErrors(
+                '{\n  "a": "A \\"quoted\\" \\u00e9",\n  "b": {"c": [1, -2.5e3, true, null]}\n}\n',
+                'i18next',
+            ),
+        ).toEqual([]);
+    });
+
+    it('should report the position of a syntax error', () => {
+        expect(
+            findKeysetSyntaxErrors('{\n  "a": "A",\n  "b": "B",\n}', 'json'),
+        ).toEqual([
+            {
+                message: "Expected a key, unexpected token '}'",
+                line: 4,
+                column: 1,
+            },
+        ]);
+        expect(findKeysetSyntaxErrors('{"a": "A"', 'json')).toEqual([
+            {
+                message: "Expected ',', unexpected end of file",
+                line: 1,
+                column: 10,
+            },
+        ]);
+    });
+
+    it('should report duplicate keys with their path', () => {
+        expect(
+            findKeysetSyntaxErrors(
+                '{\n  "a": {"b": "1",\n    "b": "2"},\n  "a": "3"\n}',
+                'json-nested',
+            ),
+        ).toEqual([
+            {message: "Duplicate key 'a.b'", line: 3, column: 5},
+            {message: "Duplicate key 'a'", line: 4, column: 3},
+        ]);
+    });
+
+    it('should report YAML errors', () => {
+        expect(findKeysetSyntaxErrors('a: 1\na: 2\n', 'yaml')).toEqual([
+            {message: 'duplicated mapping key', line: 2, column: 1},
+        ]);
+    });
+
+    it('should skip formats without checks', () => {
+        expect(findKeysetSyntaxErrors('{', 'po')).toEqual([]);
+    });
+});
@@ -0,0 +1,246 @@
+import yaml from 'js-yaml';
+import type {KeysetSyntaxError} from './types';
+
+// Thrown by the parser, the position is converted to line and column later
+class JsonParseError extends Error {
+    index: number;
+
+    constructor(message: string, index: number) {
+        super(message);
+        this.index = index;
+    }
+}
+
+const getPosition = (content: string, index: number) => {
+    const lines = content.slice(0, index).split('\n');
+
+    return {line: lines.length, column: lines[lines.length - 1].length + 1};
+};
+
+const NUMBER = /-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?/y;
+const ESCAPES = '"\\/bfnrt';
+
+// JSON.parse keeps the last of duplicate keys and reports errors without lines
+const findJsonSyntaxErrors = (content: string): KeysetSyntaxError[] => {
+    const errors: KeysetSyntaxError[] = [];
+    // Byte order mark
+    let index = content.startsWith('﻿') ? 1 : 0;
+
+    const fail = (message: string): never => {
+        throw new JsonParseError(message, index);
+    };
+
+    const describeToken = () =>
+        index < content.length
+            ? `unexpected token '${content[index]}'`
+            : 'unexpected end of file';
+
+    const skipWhitespace = () => {
+        while (/[ \t\n\r]/.test(content[index] ?? '')) {
+            index++;
+        }
+    };
+
+    const expect = (char: string) => {
+        skipWhitespace();
+
+        if (content[index] !== char) {
+            fail(`Expected '${char}', ${describeToken()}`);
+        }
+
+        index++;
+    };
+
+    const parseString = () => {
+        index++;
+        let value = '';
+
+        while (content[index] !== '"') {
+            const char = content[index];
+
+            if (char === undefined) {
+                fail('Unterminated string');
+            } else if (char < ' ') {
+                fail('Unescaped control character in string');
+            } else if (char === '\\') {
+                const escaped = content[index + 1] ?? '';
+
+                if (escaped === 'u') {
+                    if (
+                        !/^[0-9a-fA-F]{4}$/.test(
+                            content.slice(index + 2, index + 6),
+                        )
+                    ) {
+                        fail('Invalid unicode escape in string');
+                    }
+                    value += content.slice(index, index + 6);
+                    index += 6;
+                } else if (ESCAPES.includes(escaped) && escaped) {
+                    value += char + escaped;
+                    index += 2;
+                } else {
+                    fail(`Invalid escape '\\${escaped}' in string`);
+                }
+            } else {
+                value += char;
+                index++;
+            }
+        }
+
+        index++;
+
+        return value;
+    };
+
+    const parseValue = (keyPath: string): void => {
+        skipWhitespace();
+        const char = content[index];
+
+        if (char === '{') {
+            index++;
+            const keys = new Set<string>();
+            skipWhitespace();
+
+            if (content[index] === '}') {
+                index++;
+                return;
+            }
+
+            for (;;) {
+                skipWhitespace();
+
+                if (content[index] !== '"') {
+                    fail(`Expected a key, ${describeToken()}`);
+                }
+
+                const keyIndex = index;
+                const key = parseString();
+                const nestedPath = keyPath ? `${keyPath}.${key}` : key;
+
+                if (keys.has(key)) {
+                    errors.push({
+                        message: `Duplicate key '${nestedPath}'`,
+                        ...getPosition(content, keyIndex),
+                    });
+                }
+
+                keys.add(key);
+                expect(':');
+                parseValue(nestedPath);
+                skipWhitespace();
+
+                if (content[index] === '}') {
+                    index++;
+                    return;
+                }
+
+                expect(',');
+            }
+        }
+
+        if (char === '[') {
+            index++;
+            skipWhitespace();
+
+            if (content[index] === ']') {
+                index++;
+                return;
+            }
+
+            for (let itemIndex = 0; ; itemIndex++) {
+                parseValue(`${keyPath}.${itemIndex}`);
+                skipWhitespace();
+
+                if (content[index] === ']') {
+                    index++;
+                    return;
+                }
+
+                expect(',');
+            }
+        }
+
+        if (char === '"') {
+            parseString();
+            return;
+        }
+
+        for (const literal of ['true', 'false', 'null']) {
+            if (content.startsWith(literal, index)) {
+                index += literal.length;
+                return;
+            }
+        }
+
+        NUMBER.lastIndex = index;
+
+        if (NUMBER.test(content)) {
+            index = NUMBER.lastIndex;
+            return;
+        }
+
+        fail(`Expected a value, ${describeToken()}`);
+    };
+
+    try {
+        parseValue('');
+        skipWhitespace();
+
+        if (index < content.length) {
+            fail(`Expected end of file, ${describeToken()}`);
+        }
+    } catch (error) {
+        if (!(error instanceof JsonParseError)) {
+            throw error;
+        }
+
+        errors.push({
+            message: error.message,
+            ...getPosition(content, error.index),
+        });
+    }
+
+    return errors;
+};
+
+const findYamlSyntaxErrors = (content: string): KeysetSyntaxError[] => {
+    try {
+        // Duplicate keys are errors in js-yaml
+        yaml.load(content);
+        return [];
+    } catch (error) {
+        const {reason, mark} = error as yaml.YAMLException;
+
+        return [
+            {
+                message: reason ?? (error as Error).message,
+                line: (mark?.line ?? 0) + 1,
+                column: (mark?.column ?? 0) + 1,
+            },
+        ];
+    }
+};
+
+/**
+ * Finds syntax errors and duplicate keys in the keyset file
+ *
+ * @param content - Content of the keyset file
+ * @param fileFormat - Weblate file format id (e.g., "i18next")
+ * @returns Errors with 1-based line and column, empty for formats without checks
+ */
+export const findKeysetSyntaxErrors = (
+    content: string,
+    fileFormat: string,
+): KeysetSyntaxError[] => {
+    switch (fileFormat) {
+        case 'i18next':
+        case 'json':
+        case 'json-nested':
+            return findJsonSyntaxErrors(content);
+        case 'yaml':
+        case 'ruby-yaml':
+            return findYamlSyntaxErrors(content);
+        default:
+            return [];
+    }
+};
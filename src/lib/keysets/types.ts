@@ -0,0 +1,16 @@
+// Flat map of keys to source strings, nested keys are joined with '.'
+export type Keyset = Record<string, string>;
+
+export type KeysetDiff = {
+    added: string[];
+    removed: string[];
+    // Keys with a different source string
+    changed: string[];
+};
+
+export type KeysetSyntaxError = {
+    message: string;
+    // 1-based position in the file
+    line: number;
+    column: number;
+};
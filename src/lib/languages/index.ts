@@ -0,0 +1,6 @@
+export {
+    DEFAULT_LANGUAGE_REGEX,
+    formatLanguageAliases,
+    parseLanguageAliases,
+    toWeblateLanguageCode,
+} from './languages';
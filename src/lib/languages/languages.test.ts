@@ -0,0 +1,63 @@
+import {
+    DEFAULT_LANGUAGE_REGEX,
+    formatLanguageAliases,
+    parseLanguageAliases,
+    toWeblateLanguageCode,
+} from './languages';
+
+describe('DEFAULT_LANGUAGE_REGEX', () => {
+    const regex = RegExp(DEFAULT_LANGUAGE_REGEX);
+
+    it('should match BCP 47 language codes', () => {
+        for (const code of [
+            'en',
+            'fil',
+            'pt-BR',
+            'zh-Hans',
+            'es-419',
+            'sr_Latn',
+        ]) {
+            expect(regex.test(code)).toBe(true);
+        }
+    });
+
+    it('should not match other file names', () => {
+        for (const code of ['index', 'e', 'en-', 'EN', 'keys.en']) {
+            expect(regex.test(code)).toBe(false);
+        }
+    });
+});
+
+describe('parseLanguageAliases', () => {
+    it('should parse comma and newline separated pairs', () => {
+        expect(
+            parseLanguageAliases('zh-Hans:zh_Hans, pt-BR : pt_BR\nhe:iw'),
+        ).toEqual({'zh-Hans': 'zh_Hans', 'pt-BR': 'pt_BR', he: 'iw'});
+        expect(parseLanguageAliases('')).toEqual({});
+    });
+
+    it('should throw on invalid pairs', () => {
+        expect(() => parseLanguageAliases('zh-Hans')).toThrow(
+            "Invalid language alias 'zh-Hans'",
+        );
+        expect(() => parseLanguageAliases('a:b:c')).toThrow(
+            "Invalid language alias 'a:b:c'",
+        );
+    });
+});
+
+describe('toWeblateLanguageCode', () => {
+    it('should prefer aliases and replace dashes otherwise', () => {
+        expect(toWeblateLanguageCode('pt-BR')).toBe('pt_BR');
+        expect(toWeblateLanguageCode('he', {he: 'iw'})).toBe('iw');
+        expect(toWeblateLanguageCode('en')).toBe('en');
+    });
+});
+
+describe('formatLanguageAliases', () => {
+    it('should format aliases for Weblate', () => {
+        expect(formatLanguageAliases({'zh-Hans': 'zh_Hans', he: 'iw'})).toBe(
+            'zh-Hans:zh_Hans,he:iw',
+        );
+    });
+});
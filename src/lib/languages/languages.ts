@@ -0,0 +1,47 @@
+// Language codes like "en", "pt-BR", "zh-Hans", "es-419" or "sr_Latn"
+export const DEFAULT_LANGUAGE_REGEX = '^[a-z]{2,3}([-_][A-Za-z0-9]{2,8})*$';
+
+// Language code in files -> language code in Weblate
+export type LanguageAliases = Record<string, string>;
+
+/**
+ * Parses language aliases
+ *
+ * @param value - Comma or newline separated pairs (e.g., "zh-Hans:zh_Hans, pt-BR:pt_BR")
+ * @returns Weblate language codes by language codes in files
+ */
+export const parseLanguageAliases = (value: string): LanguageAliases => {
+    const aliases: LanguageAliases = {};
+
+    for (const pair of value.split(/[\n,]/)) {
+        if (!pair.trim()) {
+            continue;
+        }
+
+        const [fileCode, weblateCode, ...rest] = pair
+            .split(':')
+            .map(part => part.trim());
+
+        if (!fileCode || !weblateCode || rest.length) {
+            throw Error(
+                `Invalid language alias '${pair.trim()}', expected '<code in files>:<code in Weblate>'`,
+            );
+        }
+
+        aliases[fileCode] = weblateCode;
+    }
+
+    return aliases;
+};
+
+// Weblate uses underscores in language codes, e.g. "pt_BR"
+export const toWeblateLanguageCode = (
+    code: string,
+    aliases: LanguageAliases = {},
+) => aliases[code] ?? code.replace(/-/g, '_');
+
+// Format of the "language_aliases" field of Weblate components
+export const formatLanguageAliases = (aliases: LanguageAliases) =>
+    Object.entries(aliases)
+        .map(([fileCode, weblateCode]) => `${fileCode}:${weblateCode}`)
+        .join(',');
@@ -0,0 +1 @@
+export {KEYSETS_LAYOUTS, layoutStrategies} from './layouts';
@@ -0,0 +1,192 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+export type KeysetsLayout =
+    // <root>/<component>/<lang>.json
+    | 'component-dir'
+    // <root>/<lang>/<component>.json
+    | 'language-dir'
+    // <root>/<component>.<lang>.json
+    | 'component-suffix'
+    // <root>/<lang>.json, the root is a single component
+    | 'language-file'
+    // <root>/values/<component>.xml and <root>/values-<lang>/<component>.xml
+    | 'android-values'
+    // <root>/<component>.properties and <root>/<component>_<lang>.properties
+    | 'resource-bundle';
+
+export const KEYSETS_LAYOUTS: KeysetsLayout[] = [
+    'component-dir',
+    'language-dir',
+    'component-suffix',
+    'language-file',
+    'android-values',
+    'resource-bundle',
+];
+
+export type LayoutComponent = {
+    // Component name relative to the keysets directory
+    name: string;
+    source: string;
+    // Language part of the path is replaced by '*'
+    fileMask: string;
+};
+
+type LayoutStrategy = (
+    dir: string,
+    options: {mainLanguage: string; extension: string},
+) => Promise<LayoutComponent[]>;
+
+const readDir = (dir: string) =>
+    fs.readdir(path.resolve(process.cwd(), dir), {withFileTypes: true});
+
+const isVisible = ({name}: {name: string}) => !name.startsWith('.');
+
+const componentDirLayout: LayoutStrategy = async (
+    dir,
+    {mainLanguage, extension},
+) => {
+    const dirents = await readDir(dir);
+
+    return dirents
+        .filter(dirent => dirent.isDirectory() && isVisible(dirent))
+        .map(({name}) => ({
+            name,
+            source: path.join(dir, name, `${mainLanguage}.${extension}`),
+            fileMask: path.join(dir, name, `*.${extension}`),
+        }));
+};
+
+const languageDirLayout: LayoutStrategy = async (
+    dir,
+    {mainLanguage, extension},
+) => {
+    // Components are resolved from the files of the main language
+    const dirents = await readDir(path.join(dir, mainLanguage));
+    const suffix = `.${extension}`;
+
+    return dirents
+        .filter(
+            dirent =>
+                dirent.isFile() &&
+                isVisible(dirent) &&
+                dirent.name.endsWith(suffix),
+        )
+        .map(({name: fileName}) => {
+            const name = fileName.slice(0, -suffix.length);
+
+            return {
+                name,
+                source: path.join(dir, mainLanguage, fileName),
+                fileMask: path.join(dir, '*', fileName),
+            };
+        });
+};
+
+const componentSuffixLayout: LayoutStrategy = async (
+    dir,
+    {mainLanguage, extension},
+) => {
+    const dirents = await readDir(dir);
+    const suffix = `.${mainLanguage}.${extension}`;
+
+    return dirents
+        .filter(
+            dirent =>
+                dirent.isFile() &&
+                isVisible(dirent) &&
+                dirent.name.endsWith(suffix) &&
+                dirent.name.length > suffix.length,
+        )
+        .map(({name: fileName}) => {
+            const name = fileName.slice(0, -suffix.length);
+
+            return {
+                name,
+                source: path.join(dir, fileName),
+                fileMask: path.join(dir, `${name}.*.${extension}`),
+            };
+        });
+};
+
+const languageFileLayout: LayoutStrategy = async (
+    dir,
+    {mainLanguage, extension},
+) => {
+    const dirents = await readDir(dir);
+    const sourceFileName = `${mainLanguage}.${extension}`;
+
+    if (
+        !dirents.some(
+            dirent => dirent.isFile() && dirent.name === sourceFileName,
+        )
+    ) {
+        return [];
+    }
+
+    return [
+        {
+            name: path.basename(dir),
+            source: path.join(dir, sourceFileName),
+            fileMask: path.join(dir, `*.${extension}`),
+        },
+    ];
+};
+
+// Source strings are in the default resources without the language qualifier
+const androidValuesLayout: LayoutStrategy = async dir => {
+    const dirents = await readDir(path.join(dir, 'values'));
+
+    return dirents
+        .filter(
+            dirent =>
+                dirent.isFile() &&
+                isVisible(dirent) &&
+                dirent.name.endsWith('.xml'),
+        )
+        .map(({name: fileName}) => ({
+            name: fileName.slice(0, -'.xml'.length),
+            source: path.join(dir, 'values', fileName),
+            fileMask: path.join(dir, 'values-*', fileName),
+        }));
+};
+
+// The base bundle without the language suffix has source strings
+const resourceBundleLayout: LayoutStrategy = async (dir, {extension}) => {
+    const dirents = await readDir(dir);
+    const suffix = `.${extension}`;
+    const names = dirents
+        .filter(
+            dirent =>
+                dirent.isFile() &&
+                isVisible(dirent) &&
+                dirent.name.endsWith(suffix),
+        )
+        .map(({name: fileName}) => fileName.slice(0, -suffix.length));
+    const nameSet = new Set(names);
+    // messages_pt_BR is a translation of messages
+    const isTranslation = (name: string) =>
+        name
+            .split('_')
+            .some(
+                (_part, index, parts) =>
+                    index > 0 && nameSet.has(parts.slice(0, index).join('_')),
+            );
+
+    return names
+        .filter(name => !isTranslation(name))
+        .map(name => ({
+            name,
+            source: path.join(dir, `${name}${suffix}`),
+            fileMask: path.join(dir, `${name}_*${suffix}`),
+        }));
+};
+
+export const layoutStrategies: Record<KeysetsLayout, LayoutStrategy> = {
+    'component-dir': componentDirLayout,
+    'language-dir': languageDirLayout,
+    'component-suffix': componentSuffixLayout,
+    'language-file': languageFileLayout,
+    'android-values': androidValuesLayout,
+    'resource-bundle': resourceBundleLayout,
+};
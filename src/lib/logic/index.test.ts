@@ -0,0 +1,871 @@
+import fs from 'fs/promises';
+import {warning} from '@actions/core';
+import {glob} from 'glob';
+import type {getOctokit} from '@actions/github';
+import type {Configuration} from '../../config';
+import type {AxiosInstance, AxiosResponse} from 'axios';
+import {Plan} from '../plan';
+import {Weblate} from '../weblate';
+import type {
+    Category,
+    CategoryComponent,
+    ComponentRepository,
+    ComponentTranslationStats,
+    TranslationUnit,
+} from '../weblate/types';
+import {
+    cleanupPullRequestCategories,
+    formatCleanupReport,
+    formatFailingChecks,
+    formatSourceKeysDiff,
+    getFailingChecks,
+    getPluralFormsErrors,
+    getResyncErrors,
+    getSourceKeysDiff,
+    getTranslationsReport,
+    removeMissingComponents,
+    resolveComponentsInCode,
+} from '.';
+
+jest.mock('fs/promises');
+jest.mock('glob');
+jest.mock('@actions/core', () => ({
+    ...jest.requireActual('@actions/core'),
+    warning: jest.fn(),
+}));
+
+const mockedFs = fs as jest.Mocked<typeof fs>;
+const mockedGlob = glob as jest.MockedFunction<typeof glob>;
+const mockedWarning = warning as jest.MockedFunction<typeof warning>;
+
+const component = (name: string) =>
+    ({
+        name,
+        slug: name,
+        categorySlug: 'feature__1',
+        source_language: {code: 'en'},
+    }) as unknown as CategoryComponent;
+
+const stats = (code: string, translated: number, failing = 0) =>
+    ({
+        code,
+        total: 10,
+        translated,
+        translated_percent: translated * 10,
+        approved: translated,
+        approved_percent: translated * 10,
+        failing,
+        url: `https://weblate.test/projects/project/${code}/`,
+    }) as ComponentTranslationStats;
+
+const unit = (id: string, key: string) =>
+    ({
+        id,
+        context: key,
+        source: [`Text of ${key}`],
+        fuzzy: false,
+        web_url: `https://weblate.test/translate/${id}/`,
+    }) as TranslationUnit;
+
+// Units failing each check, by language
+type FailingUnits = Record<string, Record<string, TranslationUnit[]>>;
+
+const createWeblate = (
+    translations: ComponentTranslationStats[],
+    failingUnits: FailingUnits = {},
+) => {
+    const queries: string[] = [];
+
+    const weblate = {
+        mapComponents: <T, R>(
+            _action: string,
+            items: T[],
+            operation: (item: T) => Promise<R>,
+        ) => Promise.all(items.map(operation)),
+        getComponentTranslationsStats: async () => translations,
+        getTranslationUnits: async ({
+            language,
+            query,
+        }: {
+            language: string;
+            query: string;
+        }) => {
+            queries.push(`${language} ${query}`);
+
+            const check = query.replace(/^check:/, '');
+
+            return {results: failingUnits[language]?.[check] ?? []};
+        },
+    } as unknown as Weblate;
+
+    return {weblate, queries};
+};
+
+describe('resolveComponentsInCode', () => {
+    const config = {
+        keysetsPath: 'apps/*/i18n',
+        mainLanguage: 'en',
+        fileFormat: 'i18next',
+        repositoryConfig: {},
+    } as Configuration;
+
+    beforeEach(() => {
+        mockedGlob.mockResolvedValue(['apps/admin/i18n', 'apps/site/i18n']);
+        mockedFs.readdir.mockResolvedValue([
+            {name: 'common', isDirectory: () => true},
+        ] as unknown as Awaited<ReturnType<typeof fs.readdir>>);
+    });
+
+    afterEach(() => {
+        jest.resetAllMocks();
+    });
+
+    it('should fail if keysets of different paths resolve to the same component', async () => {
+        await expect(
+            resolveComponentsInCode({
+                ...config,
+                componentNameTemplate: '{component}',
+            }),
+        ).rejects.toThrow(
+            [
+                'Component name collision, several keysets resolve to the same Weblate component:',
+                "  - 'common', 'common':",
+                '      apps/admin/i18n/common/*.json',
+                '      apps/site/i18n/common/*.json',
+                'Set COMPONENT_NAME_TEMPLATE or override component names in the config file.',
+            ].join('\n'),
+        );
+    });
+
+    it('should allow the same names in different nested categories', async () => {
+        mockedGlob
+            .mockResolvedValueOnce(['apps/admin/i18n', 'apps/site/i18n'])
+            .mockResolvedValue([]);
+
+        const components = await resolveComponentsInCode({
+            ...config,
+            componentNameTemplate: '{component}',
+            nestedCategories: true,
+        });
+
+        expect(components.map(({name, group}) => `${group}/${name}`)).toEqual([
+            'admin/common',
+            'site/common',
+        ]);
+    });
+
+    it('should warn about file formats unknown to the action', async () => {
+        mockedGlob.mockResolvedValue([]);
+
+        await resolveComponentsInCode({
+            ...config,
+            repositoryConfig: {
+                defaults: {file_format: 'csv'},
+                overrides: [{match: 'apps/site/**', file_format: 'json'}],
+            },
+        });
+
+        expect(mockedWarning).toHaveBeenCalledTimes(1);
+        expect(mockedWarning.mock.calls[0][0]).toMatch(
+            /^File format 'csv' is unknown to the action, it is passed to Weblate as is without checks of keysets/,
+        );
+    });
+});
+
+describe('getPluralFormsErrors', () => {
+    afterEach(() => {
+        jest.resetAllMocks();
+    });
+
+    it('should skip languages without plural rules with a warning', async () => {
+        const files: Record<string, string> = {
+            'src/i18n/common/en.json':
+                '{"item_one": "Item", "item_other": "Items"}',
+            'src/i18n/common/ru.json':
+                '{"item_one": "Предмет", "item_other": "Предметы"}',
+            'src/i18n/common/tlh.json': '{"item_other": "Items"}',
+        };
+
+        mockedGlob.mockResolvedValue(Object.keys(files));
+        mockedFs.readFile.mockImplementation(
+            async file => files[file as string],
+        );
+
+        const errors = await getPluralFormsErrors({
+            config: {
+                fileFormat: 'i18next',
+                mainLanguage: 'en',
+                repositoryConfig: {},
+            } as unknown as Configuration,
+            componentsInCode: [
+                {
+                    name: 'common',
+                    source: 'src/i18n/common/en.json',
+                    fileMask: 'src/i18n/common/*.json',
+                },
+            ],
+        });
+
+        expect(errors).toEqual([
+            {
+                file: 'src/i18n/common/ru.json',
+                language: 'ru',
+                key: 'item',
+                missing: ['few', 'many'],
+                extra: [],
+            },
+        ]);
+        expect(mockedWarning).toHaveBeenCalledWith(
+            "Plural forms of language 'tlh' are not checked: no CLDR plural rules for it, e.g. src/i18n/common/tlh.json",
+        );
+    });
+});
+
+describe('getFailingChecks', () => {
+    it('should search strings for each check of translations with failing checks', async () => {
+        const {weblate, queries} = createWeblate([], {
+            ru: {
+                placeholders: [unit('1', 'greeting')],
+                'same-plurals': [unit('1', 'greeting'), unit('2', 'title')],
+            },
+        });
+
+        const failingChecks = await getFailingChecks({
+            translations: [
+                {component: component('common'), stats: stats('ru', 10, 2)},
+                {component: component('common'), stats: stats('de', 10)},
+            ],
+            weblate,
+            checks: ['placeholders', 'same-plurals'],
+        });
+
+        expect(queries).toEqual([
+            'ru check:placeholders',
+            'ru check:same-plurals',
+        ]);
+        expect(
+            failingChecks.map(({key, language, checks}) => ({
+                key,
+                language,
+                checks,
+            })),
+        ).toEqual([
+            {
+                key: 'greeting',
+                language: 'ru',
+                checks: ['placeholders', 'same-plurals'],
+            },
+            {key: 'title', language: 'ru', checks: ['same-plurals']},
+        ]);
+    });
+});
+
+describe('formatFailingChecks', () => {
+    it('should group strings by component and mark blocking checks in bold', () => {
+        const comment = formatFailingChecks(
+            [
+                {
+                    component: component('common__feature'),
+                    language: 'ru',
+                    key: 'greeting',
+                    checks: ['placeholders', 'same-plurals'],
+                    url: 'https://weblate.test/translate/1/',
+                },
+            ],
+            ['placeholders'],
+        );
+
+        expect(comment).toBe(
+            [
+                '<details>',
+                '<summary>1 strings fail Weblate quality checks</summary>',
+                '',
+                '**common**',
+                '- `greeting` (ru): **placeholders**, same-plurals — [translate](https://weblate.test/translate/1/)',
+                '</details>',
+            ].join('\n'),
+        );
+    });
+});
+
+describe('getTranslationsReport', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should return nothing if translations are complete and checks pass', async () => {
+        const {weblate} = createWeblate([stats('en', 10), stats('ru', 10)]);
+
+        await expect(
+            getTranslationsReport({
+                components: [component('common')],
+                weblate,
+                qualityChecks: ['placeholders'],
+            }),
+        ).resolves.toBeUndefined();
+    });
+
+    it('should report non-blocking checks without failing the pull request', async () => {
+        const {weblate} = createWeblate([stats('en', 10), stats('ru', 10, 1)], {
+            ru: {'same-plurals': [unit('1', 'greeting')]},
+        });
+
+        const report = await getTranslationsReport({
+            components: [component('common')],
+            weblate,
+            qualityChecks: ['same-plurals'],
+            blockingChecks: ['placeholders'],
+        });
+
+        expect(report?.blocking).toBe(false);
+        expect(report?.comment).toContain(
+            '- `greeting` (ru): same-plurals — [translate](https://weblate.test/translate/1/)',
+        );
+        expect(report?.comment).not.toContain('must be fixed in Weblate');
+    });
+
+    it('should fail the pull request if blocking checks fail', async () => {
+        const {weblate} = createWeblate([stats('en', 10), stats('ru', 10, 1)], {
+            ru: {placeholders: [unit('1', 'greeting')]},
+        });
+
+        const report = await getTranslationsReport({
+            components: [component('common')],
+            weblate,
+            blockingChecks: ['placeholders'],
+        });
+
+        expect(report?.blocking).toBe(true);
+        expect(report?.comment).toContain(
+            '- `greeting` (ru): **placeholders** — [translate](https://weblate.test/translate/1/)',
+        );
+        expect(report?.comment).toContain(
+            'Strings failing `placeholders` checks must be fixed in Weblate.',
+        );
+    });
+
+    it('should report changed source keys if translations are complete', async () => {
+        const {weblate} = createWeblate([stats('en', 10), stats('ru', 10)]);
+
+        const report = await getTranslationsReport({
+            components: [component('common')],
+            weblate,
+            sourceKeysDiff: '<details>source keys</details>',
+        });
+
+        expect(report).toEqual({
+            comment: [
+                '**i18n-check**',
+                '<details>source keys</details>',
+                '\nTranslations are complete and checks pass.',
+            ].join('\n'),
+            blocking: false,
+        });
+    });
+});
+
+describe('getResyncErrors', () => {
+    const master = {id: '1', name: 'master', slug: 'master'} as Category;
+    const pullRequest = {
+        id: '2',
+        name: 'feature__1',
+        slug: 'feature__1',
+    } as Category;
+
+    const categoryComponent = (
+        name: string,
+        categorySlug: string,
+        repo = 'https://github.com/org/repo',
+    ) =>
+        ({
+            name,
+            categorySlug,
+            repo,
+            linked_component: repo.startsWith('weblate://') ? name : null,
+        }) as CategoryComponent;
+
+    const createResyncWeblate = ({
+        components,
+        repositories = {},
+    }: {
+        components: Record<string, CategoryComponent[]>;
+        repositories?: Record<string, Partial<ComponentRepository>>;
+    }) =>
+        ({
+            mapComponents: <T, R>(
+                _action: string,
+                items: T[],
+                operation: (item: T) => Promise<R>,
+            ) => Promise.all(items.map(operation)),
+            getCategories: async () => [master, pullRequest],
+            getComponentsInCategoryTree: async ({
+                categoryId,
+            }: {
+                categoryId: string;
+            }) => components[categoryId] ?? [],
+            getComponentRepository: async ({name}: {name: string}) =>
+                repositories[name] ?? {},
+        }) as unknown as Weblate;
+
+    it('should allow removing categories without pending changes', async () => {
+        const weblate = createResyncWeblate({
+            components: {
+                '2': [
+                    categoryComponent('common__1', 'feature__1'),
+                    categoryComponent(
+                        'pages__1',
+                        'feature__1',
+                        'weblate://project/feature__1/common__1',
+                    ),
+                ],
+            },
+        });
+
+        await expect(
+            getResyncErrors({
+                config: {
+                    project: 'project',
+                    pullRequestNumber: 1,
+                } as Configuration,
+                weblate,
+                category: pullRequest,
+            }),
+        ).resolves.toEqual([]);
+    });
+
+    it('should keep categories with changes not committed or pushed from Weblate', async () => {
+        const weblate = createResyncWeblate({
+            components: {'2': [categoryComponent('common__1', 'feature__1')]},
+            repositories: {common__1: {needs_commit: true, needs_push: true}},
+        });
+
+        const errors = await getResyncErrors({
+            config: {project: 'project', pullRequestNumber: 1} as Configuration,
+            weblate,
+            category: pullRequest,
+        });
+
+        expect(errors).toEqual([
+            "Component 'common__1' has uncommitted changes, commit them in Weblate first.",
+            "Component 'common__1' has changes not pushed to the repository, push them and merge the pull request from Weblate first.",
+        ]);
+    });
+
+    it('should keep branch categories linked from pull request categories', async () => {
+        const weblate = createResyncWeblate({
+            components: {
+                '1': [categoryComponent('common', 'master')],
+                '2': [
+                    categoryComponent(
+                        'common__1',
+                        'feature__1',
+                        'weblate://project/master/common',
+                    ),
+                ],
+            },
+        });
+
+        const errors = await getResyncErrors({
+            config: {project: 'project'} as Configuration,
+            weblate,
+            category: master,
+        });
+
+        expect(errors).toEqual([
+            'Components of pull request categories `feature__1` are linked to the category. Remove them with REMOVE_BRANCH or CLEANUP_PULL_REQUESTS first.',
+        ]);
+    });
+});
+
+describe('removeMissingComponents', () => {
+    const categoryUrl = (id: string) =>
+        `https://weblate.test/api/categories/${id}/`;
+    // The group 'old' with the nested category 'deep' was removed from the code
+    const categories = [
+        {url: categoryUrl('1'), name: 'feature__1', slug: 'feature-1'},
+        {url: categoryUrl('2'), name: 'app-a', slug: 'app-a', category: '1'},
+        {url: categoryUrl('3'), name: 'old', slug: 'old', category: '1'},
+        {url: categoryUrl('4'), name: 'deep', slug: 'deep', category: '3'},
+        {url: categoryUrl('5'), name: 'app-b', slug: 'app-b', category: '1'},
+    ].map(({category, ...fields}) => ({
+        ...fields,
+        category: category ? categoryUrl(category) : null,
+    }));
+    // The main component is removed, linked components are in nested groups
+    const components = [
+        {name: 'common__1', category: '1', linked: false},
+        {name: 'forms__1', category: '2', linked: true},
+        {name: 'legacy__1', category: '4', linked: true},
+        {name: 'pages__1', category: '5', linked: true},
+    ].map(({name, category, linked}) => ({
+        name,
+        slug: name.replace('__', '-'),
+        url: `https://weblate.test/api/components/project/${name}/`,
+        category: categoryUrl(category),
+        filemask: `src/i18n/${name.split('__')[0]}/*.json`,
+        linked_component: linked
+            ? 'https://weblate.test/api/components/project/common__1/'
+            : null,
+    }));
+    const config = {
+        project: 'project',
+        gitRepo: 'https://github.com/org/repo',
+        branchName: 'feature',
+    } as Configuration;
+
+    it('should relink components across groups and remove nested categories of missing groups', async () => {
+        const weblate = new Weblate({
+            serverUrl: 'https://weblate.test',
+            token: 'token',
+            project: 'project',
+            mainLanguage: 'en',
+            fileFormat: 'i18next',
+        });
+        const writes: string[] = [];
+
+        (
+            weblate as unknown as {client: AxiosInstance}
+        ).client.defaults.adapter = async axiosConfig => {
+            const {method, url = '', params} = axiosConfig;
+            let data: unknown = {};
+
+            if (method === 'get') {
+                data = {
+                    next: null,
+                    results: url.endsWith('/categories/')
+                        ? categories
+                        : components.filter(
+                              ({category}) =>
+                                  category === categoryUrl(params.category),
+                          ),
+                };
+            } else {
+                const {repo} = JSON.parse(axiosConfig.data ?? '{}');
+
+                writes.push(
+                    [method, decodeURIComponent(url), repo]
+                        .filter(Boolean)
+                        .join(' '),
+                );
+            }
+
+            // AxiosResponse is extended with Promise methods in weblate.ts
+            return {
+                data,
+                status: 200,
+                statusText: 'OK',
+                headers: {},
+                config: axiosConfig,
+            } as unknown as AxiosResponse;
+        };
+
+        await removeMissingComponents({
+            config,
+            weblate,
+            categoryId: '1',
+            categorySlug: 'feature-1',
+            componentsInCode: [
+                {
+                    name: 'forms',
+                    source: 'src/i18n/forms/en.json',
+                    fileMask: 'src/i18n/forms/*.json',
+                    group: 'app-a',
+                },
+                {
+                    name: 'pages',
+                    source: 'src/i18n/pages/en.json',
+                    fileMask: 'src/i18n/pages/*.json',
+                    group: 'app-b',
+                },
+            ],
+        });
+
+        // Category paths are encoded in component urls of the Weblate API
+        expect(writes).toEqual([
+            'put /api/components/project/feature-1%2Fapp-a%2Fforms-1/ https://github.com/org/repo',
+            'put /api/components/project/feature-1%2Fapp-b%2Fpages-1/ weblate://project/feature-1/app-a/forms-1',
+            'delete /api/components/project/feature-1%2Fcommon-1/',
+            'delete /api/components/project/feature-1%2Fold%2Fdeep%2Flegacy-1/',
+            'delete /api/categories/4/',
+            'delete /api/categories/3/',
+        ]);
+    });
+});
+
+describe('getSourceKeysDiff', () => {
+    const {GITHUB_REPOSITORY} = process.env;
+
+    beforeEach(() => {
+        process.env.GITHUB_REPOSITORY = 'org/repo';
+    });
+
+    afterEach(() => {
+        process.env.GITHUB_REPOSITORY = GITHUB_REPOSITORY;
+        jest.resetAllMocks();
+    });
+
+    it('should request source files of the base branch with limited concurrency', async () => {
+        const componentsInCode = ['a', 'b', 'c', 'd', 'e'].map(name => ({
+            name,
+            source: `src/i18n/${name}/en.json`,
+            fileMask: `src/i18n/${name}/*.json`,
+        }));
+        let running = 0;
+        let maxRunning = 0;
+        const getContent = jest.fn(async ({path}: {path: string}) => {
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+            await new Promise(resolve => setTimeout(resolve, 10));
+            running--;
+
+            // The key of "a" is added in the pull request
+            return {data: path.includes('/a/') ? '{}' : '{"title": "Title"}'};
+        });
+
+        mockedFs.readFile.mockResolvedValue('{"title": "Title"}');
+
+        const diffs = await getSourceKeysDiff({
+            config: {
+                fileFormat: 'i18next',
+                baseBranch: 'master',
+                maxConcurrency: 2,
+                repositoryConfig: {},
+            } as unknown as Configuration,
+            octokit: {rest: {repos: {getContent}}} as unknown as ReturnType<
+                typeof getOctokit
+            >,
+            componentsInCode,
+        });
+
+        expect(getContent).toHaveBeenCalledTimes(5);
+        expect(maxRunning).toBe(2);
+        expect(diffs.map(diff => diff.component)).toEqual(['a']);
+    });
+
+    it('should report unparsable source files of the base branch', async () => {
+        const getContent = jest.fn(async () => ({
+            data: '<<<<<<< HEAD\n{"title": "Title"}',
+        }));
+
+        mockedFs.readFile.mockResolvedValue('{"title": "Title"}');
+
+        const diffs = await getSourceKeysDiff({
+            config: {
+                fileFormat: 'i18next',
+                baseBranch: 'master',
+                maxConcurrency: 2,
+                repositoryConfig: {},
+            } as unknown as Configuration,
+            octokit: {rest: {repos: {getContent}}} as unknown as ReturnType<
+                typeof getOctokit
+            >,
+            componentsInCode: [
+                {
+                    name: 'common',
+                    group: 'app-a',
+                    source: 'src/i18n/common/en.json',
+                    fileMask: 'src/i18n/common/*.json',
+                },
+            ],
+        });
+
+        expect(diffs).toEqual([
+            {
+                component: 'app-a/common',
+                diff: {added: [], removed: [], changed: []},
+                baseError: expect.any(String),
+            },
+        ]);
+        expect(formatSourceKeysDiff(diffs)).toContain(
+            '**app-a/common**\n- unparsable source file in the base branch: ',
+        );
+    });
+});
+
+describe('cleanupPullRequestCategories', () => {
+    const {GITHUB_REPOSITORY} = process.env;
+    const DAY = 24 * 60 * 60 * 1000;
+    const categories = [
+        {id: '1', name: 'feature__1', slug: 'feature-1'},
+        {id: '2', name: 'feature__2', slug: 'feature-2'},
+        {id: '3', name: 'feature__3', slug: 'feature-3'},
+        {id: '4', name: 'release__4', slug: 'release-4'},
+        {id: '5', name: 'feature__5', slug: 'feature-5'},
+        // Categories of branches and nested categories are not checked
+        {id: '6', name: 'master', slug: 'master'},
+        {id: '7', name: 'app__7', slug: 'app-7', category: '1'},
+    ];
+    const config = {
+        cleanupMinAgeDays: 7,
+        cleanupAllowlist: ['release__*'],
+        dryRun: false,
+    } as Configuration;
+
+    // Pull request 1 was closed long ago, 2 is open, 3 was closed recently, 5 doesn't exist
+    const createOctokit = () => {
+        const get = jest.fn(
+            async ({pull_number: pullNumber}: {pull_number: number}) => {
+                const closedAt = {
+                    1: new Date(Date.now() - 30 * DAY).toISOString(),
+                    3: new Date(Date.now() - DAY).toISOString(),
+                }[pullNumber];
+
+                if (pullNumber === 5) {
+                    throw Object.assign(Error('Not Found'), {status: 404});
+                }
+
+                return {
+                    data: {
+                        state: closedAt ? 'closed' : 'open',
+                        closed_at: closedAt ?? null,
+                    },
+                };
+            },
+        );
+
+        return {
+            get,
+            octokit: {rest: {pulls: {get}}} as unknown as ReturnType<
+                typeof getOctokit
+            >,
+        };
+    };
+
+    beforeEach(() => {
+        process.env.GITHUB_REPOSITORY = 'org/repo';
+    });
+
+    afterEach(() => {
+        process.env.GITHUB_REPOSITORY = GITHUB_REPOSITORY;
+    });
+
+    it('should remove only categories of pull requests closed long ago', async () => {
+        const removeCategory = jest.fn(async () => {});
+        const weblate = {
+            getCategories: async () => categories,
+            removeCategory,
+        } as unknown as Weblate;
+        const {get, octokit} = createOctokit();
+
+        const report = await cleanupPullRequestCategories({
+            config,
+            weblate,
+            octokit,
+        });
+
+        expect(report).toEqual([
+            {category: 'feature__1', pullRequestNumber: 1, status: 'removed'},
+            {category: 'feature__2', pullRequestNumber: 2, status: 'open'},
+            {
+                category: 'feature__3',
+                pullRequestNumber: 3,
+                status: 'too-recent',
+            },
+            {
+                category: 'release__4',
+                pullRequestNumber: 4,
+                status: 'allowlisted',
+            },
+            {
+                category: 'feature__5',
+                pullRequestNumber: 5,
+                status: 'pull-request-not-found',
+            },
+        ]);
+        expect(removeCategory).toHaveBeenCalledTimes(1);
+        expect(removeCategory).toHaveBeenCalledWith('1', 'feature__1');
+        // Allowlisted categories don't need the pull request
+        expect(
+            get.mock.calls.map(([{pull_number: pullNumber}]) => pullNumber),
+        ).toEqual([1, 2, 3, 5]);
+        expect(formatCleanupReport(report, false).split('\n')).toEqual([
+            'Found 5 pull request categories',
+            '',
+            'Removed (1):',
+            '  feature__1 (#1)',
+            '',
+            'Kept, pull request is open (1):',
+            '  feature__2 (#2)',
+            '',
+            'Kept, category is in the allowlist (1):',
+            '  release__4 (#4)',
+            '',
+            'Kept, pull request was closed recently (1):',
+            '  feature__3 (#3)',
+            '',
+            'Kept, pull request not found (1):',
+            '  feature__5 (#5)',
+        ]);
+    });
+
+    it('should only plan removals in the dry run', async () => {
+        const plan = new Plan();
+        const weblate = new Weblate({
+            serverUrl: 'https://weblate.test',
+            token: 'token',
+            project: 'project',
+            mainLanguage: 'en',
+            fileFormat: 'i18next',
+            plan,
+        });
+        const requests: string[] = [];
+
+        (
+            weblate as unknown as {client: AxiosInstance}
+        ).client.defaults.adapter = async axiosConfig => {
+            requests.push(`${axiosConfig.method} ${axiosConfig.url}`);
+
+            // AxiosResponse is extended with Promise methods in weblate.ts
+            return {
+                data: {
+                    next: null,
+                    results: axiosConfig.url?.endsWith('/categories/')
+                        ? categories.map(({category, ...fields}) => ({
+                              ...fields,
+                              category: category
+                                  ? `https://weblate.test/api/categories/${category}/`
+                                  : null,
+                          }))
+                        : [],
+                },
+                status: 200,
+                statusText: 'OK',
+                headers: {},
+                config: axiosConfig,
+            } as unknown as AxiosResponse;
+        };
+
+        const report = await cleanupPullRequestCategories({
+            config: {...config, dryRun: true},
+            weblate,
+            octokit: createOctokit().octokit,
+        });
+
+        expect(requests.every(request => request.startsWith('get'))).toBe(true);
+        expect(report.filter(({status}) => status === 'removed')).toEqual([
+            {category: 'feature__1', pullRequestNumber: 1, status: 'removed'},
+        ]);
+        // The nested category is removed before its parent
+        expect(plan.toJSON()).toEqual([
+            {
+                type: 'remove-category',
+                id: '7',
+                name: 'feature__1/app__7',
+                components: [],
+            },
+            {
+                type: 'remove-category',
+                id: '1',
+                name: 'feature__1',
+                components: [],
+            },
+        ]);
+        expect(formatCleanupReport(report, true)).toContain(
+            'To remove (1):\n  feature__1 (#1)',
+        );
+    });
+});
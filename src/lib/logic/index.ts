@@ -1,8 +1,319 @@
+import fs from 'fs/promises';
+import path from 'path';
+import {error as errorAnnotation, warning} from '@actions/core';
+import {context} from '@actions/github';
+import {glob} from 'glob';
+import type {getOctokit} from '@actions/github';
+import {minimatch} from 'minimatch';
 import type {Configuration} from '../../config';
 import type {Weblate} from '../weblate';
+import {
+    getLanguageFromPath,
+    parsePullRequestCategoryName,
+    resolveComponents,
+} from '../../utils';
 import type {ComponentInCode} from '../../utils';
+import {FILE_FORMAT_NAMES, getFileFormat} from '../formats';
+import {
+    diffKeysets,
+    findKeysetSyntaxErrors,
+    isEmptyKeysetDiff,
+    parseKeyset,
+} from '../keysets';
+import type {Keyset, KeysetDiff} from '../keysets/types';
+import {comparePlaceholders} from '../placeholders';
+import {checkPluralForms, getPluralCategories} from '../plurals';
+import {findKeysInCode, getKeyPatterns, getKeysUsageReport} from '../usage';
+import {applyRepositoryConfig} from '../repository-config';
+import type {GatingPolicy} from '../repository-config/types';
+import {getGatingViolations, getLanguageThresholds} from '../gating';
 import partition from 'lodash/partition';
-import type {Component} from '../weblate/types';
+import uniq from 'lodash/uniq';
+import type {
+    Category,
+    CategoryComponent,
+    ComponentTranslationStats,
+    TranslationUnit,
+} from '../weblate/types';
+import {createLimiter, mapBatch} from '../weblate/concurrency';
+import {slugify} from '../weblate/normalizers';
+
+// Components with the same slug would overwrite each other in Weblate
+const assertUniqueComponentNames = (components: ComponentInCode[]) => {
+    const componentsBySlug = new Map<string, ComponentInCode[]>();
+
+    for (const component of components) {
+        // Components in different nested categories don't collide
+        const slug = `${component.group ?? ''}/${slugify(component.name)}`;
+
+        componentsBySlug.set(slug, [
+            ...(componentsBySlug.get(slug) ?? []),
+            component,
+        ]);
+    }
+
+    const collisions = [...componentsBySlug.values()].filter(
+        sameSlugComponents => sameSlugComponents.length > 1,
+    );
+
+    if (collisions.length) {
+        throw Error(
+            [
+                'Component name collision, several keysets resolve to the same Weblate component:',
+                ...collisions.map(sameSlugComponents =>
+                    [
+                        `  - ${sameSlugComponents
+                            .map(({name}) => `'${name}'`)
+                            .join(', ')}:`,
+                        ...sameSlugComponents.map(
+                            ({fileMask}) => `      ${fileMask}`,
+                        ),
+                    ].join('\n'),
+                ),
+                'Set COMPONENT_NAME_TEMPLATE or override component names in the config file.',
+            ].join('\n'),
+        );
+    }
+};
+
+// Components of different nested categories can have the same name
+const getComponentPath = ({name, group}: ComponentInCode) =>
+    group ? `${group}/${name}` : name;
+
+// FILE_EXTENSION applies only to FILE_FORMAT, formats of the config file use their own extensions
+const getComponentFormat = (
+    component: ComponentInCode,
+    config: Configuration,
+) =>
+    component.settings?.file_format
+        ? getFileFormat(component.settings.file_format)
+        : getFileFormat(config.fileFormat, config.fileExtension);
+
+const getComponentFileFormat = (
+    component: ComponentInCode,
+    config: Configuration,
+) => getComponentFormat(component, config).id;
+
+// Formats of the config file
+const getRepositoryConfigFileFormats = (config: Configuration) => {
+    const {defaults, overrides = [], components = {}} = config.repositoryConfig;
+
+    return uniq(
+        [
+            defaults?.file_format,
+            ...overrides.map(settings => settings.file_format),
+            ...Object.values(components).map(settings => settings.file_format),
+        ].filter((fileFormat): fileFormat is string => Boolean(fileFormat)),
+    );
+};
+
+// Extensions of FILE_FORMAT and of the formats of the config file
+const getKeysetExtensions = (config: Configuration) =>
+    uniq([
+        getFileFormat(config.fileFormat, config.fileExtension).extension,
+        ...getRepositoryConfigFileFormats(config).map(
+            fileFormat => getFileFormat(fileFormat).extension,
+        ),
+    ]);
+
+// Other Weblate formats are passed through, the warning points to typos in format names
+const warnAboutUnknownFileFormats = (config: Configuration) => {
+    const fileFormats = uniq([
+        config.fileFormat,
+        ...getRepositoryConfigFileFormats(config),
+    ]);
+
+    for (const fileFormat of fileFormats) {
+        if (!FILE_FORMAT_NAMES.includes(fileFormat)) {
+            warning(
+                `File format '${fileFormat}' is unknown to the action, it is passed to Weblate as is without checks of keysets. Known formats: ${FILE_FORMAT_NAMES.join(
+                    ', ',
+                )}`,
+            );
+        }
+    }
+};
+
+// Weblate silently skips files with language codes not matching the filter
+const warnAboutIgnoredTranslationFiles = async (
+    components: ComponentInCode[],
+    languageRegex: string,
+) => {
+    for (const component of components) {
+        const regex = RegExp(
+            component.settings?.language_regex ?? languageRegex,
+        );
+        const files = await glob(component.fileMask, {
+            nodir: true,
+            posix: true,
+        });
+
+        for (const file of files.sort()) {
+            const language = getLanguageFromPath(component.fileMask, file);
+
+            if (language !== undefined && !regex.test(language)) {
+                warning(
+                    `File ${file} of component '${component.name}' is ignored by Weblate: language '${language}' doesn't match ${regex.source}, check LANGUAGE_REGEX or language_regex in the config file`,
+                );
+            }
+        }
+    }
+};
+
+// Reports errors as annotations of the files, Weblate fails on them with opaque parse errors
+const assertValidKeysets = async (
+    components: ComponentInCode[],
+    config: Configuration,
+) => {
+    const invalidFiles: string[] = [];
+
+    for (const component of components) {
+        const fileFormat = getComponentFileFormat(component, config);
+        const files = await glob(component.fileMask, {
+            nodir: true,
+            posix: true,
+        });
+
+        for (const file of files.sort()) {
+            const errors = findKeysetSyntaxErrors(
+                await fs.readFile(file, 'utf-8'),
+                fileFormat,
+            );
+
+            for (const {message, line, column} of errors) {
+                errorAnnotation(message, {
+                    title: 'Invalid keyset',
+                    file,
+                    startLine: line,
+                    startColumn: column,
+                });
+            }
+
+            if (errors.length) {
+                invalidFiles.push(file);
+            }
+        }
+    }
+
+    if (invalidFiles.length) {
+        throw Error(
+            `Keyset files have syntax errors or duplicate keys:\n${invalidFiles.join(
+                '\n',
+            )}`,
+        );
+    }
+};
+
+// Resolves components from the file structure and applies repository config to them
+export const resolveComponentsInCode = async (config: Configuration) => {
+    const componentsWithSettings: ComponentInCode[] = [];
+
+    warnAboutUnknownFileFormats(config);
+
+    // Each component is kept only with the extension of its own format
+    for (const extension of getKeysetExtensions(config)) {
+        const components = await resolveComponents(
+            config.keysetsPath,
+            config.mainLanguage,
+            {
+                layout: config.keysetsLayout,
+                extension,
+                nameTemplate: config.componentNameTemplate,
+                groupByPackage: config.nestedCategories,
+            },
+        );
+
+        componentsWithSettings.push(
+            ...applyRepositoryConfig(
+                components,
+                config.repositoryConfig,
+                config.mainLanguage,
+            ).filter(
+                component =>
+                    getComponentFormat(component, config).extension ===
+                    extension,
+            ),
+        );
+    }
+
+    assertUniqueComponentNames(componentsWithSettings);
+    await assertValidKeysets(componentsWithSettings, config);
+    await warnAboutIgnoredTranslationFiles(
+        componentsWithSettings,
+        config.languageRegex,
+    );
+
+    return componentsWithSettings;
+};
+
+const findComponentInCode = (
+    componentsInCode: ComponentInCode[],
+    {name, group}: {name: string; group?: string},
+) =>
+    componentsInCode.find(
+        component =>
+            component.name === name.split('__')[0] &&
+            (component.group ?? '') === (group ?? ''),
+    );
+
+export type ComponentCategory = {
+    categoryId: string;
+    categorySlug: string;
+};
+
+type CreateComponentCategoriesInput = {
+    weblate: Weblate;
+    categoryId: string;
+    categorySlug: string;
+    groups: Array<string | undefined>;
+};
+
+/**
+ * Creates nested categories for groups of components in the branch category
+ *
+ * @param input - Branch category and groups of components
+ * @returns Function returning the category of the component group
+ */
+export const createComponentCategories = async ({
+    weblate,
+    categoryId,
+    categorySlug,
+    groups,
+}: CreateComponentCategoriesInput) => {
+    const categories = new Map<string, ComponentCategory>();
+
+    for (const group of uniq(groups)) {
+        if (!group) {
+            continue;
+        }
+
+        const category = await weblate.createCategory({
+            name: group,
+            parentId: categoryId,
+            parentSlug: categorySlug,
+        });
+
+        categories.set(group, {
+            categoryId: category.id,
+            categorySlug: `${categorySlug}/${category.slug}`,
+        });
+    }
+
+    return (group?: string): ComponentCategory =>
+        (group && categories.get(group)) || {categoryId, categorySlug};
+};
+
+type CreateComponentParams = Parameters<Weblate['createComponent']>[0];
+
+// Creates the component and remembers the slug of its category
+export const createComponentInCategory = async (
+    weblate: Weblate,
+    category: ComponentCategory,
+    params: Omit<CreateComponentParams, 'categoryId' | 'categorySlug'>,
+): Promise<CategoryComponent> => ({
+    ...(await weblate.createComponent({...params, ...category})),
+    categorySlug: category.categorySlug,
+});
 
 type RemoveMissingComponentsInput = {
     config: Configuration;
@@ -19,17 +330,15 @@ export const removeMissingComponents = async ({
     categorySlug,
     componentsInCode,
 }: RemoveMissingComponentsInput) => {
-    const weblateComponents = await weblate.getComponentsInCategory({
+    const weblateComponents = await weblate.getComponentsInCategoryTree({
         categoryId,
+        categorySlug,
     });
 
     // Removing components that don't exist in the code
     const [componentsToRemove, aliveComponents] = partition(
         weblateComponents,
-        ({name}) =>
-            !componentsInCode.find(
-                component => component.name === name.split('__')[0],
-            ),
+        component => !findComponentInCode(componentsInCode, component),
     );
 
     if (componentsToRemove.length) {
@@ -43,32 +352,56 @@ export const removeMissingComponents = async ({
 
             await weblate.updateComponent({
                 name: mainComponent.name,
-                categorySlug,
+                categorySlug: mainComponent.categorySlug,
                 repo: config.gitRepo,
                 branch: config.branchName,
                 fileMask: mainComponent.filemask,
                 repoForUpdates: config.gitRepo,
                 branchForUpdates: config.branchName,
+                settings: findComponentInCode(componentsInCode, mainComponent)
+                    ?.settings,
             });
 
-            const requests = componentsToLinking.map(component =>
-                weblate.updateComponent({
-                    name: component.name,
-                    categorySlug,
-                    repo: `weblate://${config.project}/${categorySlug}/${mainComponent.slug}`,
-                    fileMask: component.filemask,
-                }),
+            await weblate.mapComponents(
+                'relink',
+                componentsToLinking,
+                component =>
+                    weblate.updateComponent({
+                        name: component.name,
+                        categorySlug: component.categorySlug,
+                        repo: `weblate://${config.project}/${mainComponent.categorySlug}/${mainComponent.slug}`,
+                        fileMask: component.filemask,
+                        settings: findComponentInCode(
+                            componentsInCode,
+                            component,
+                        )?.settings,
+                    }),
             );
-
-            await Promise.all(requests);
         }
 
         // Remove components
-        const requests = componentsToRemove.map(({name}) =>
-            weblate.removeComponent({name, categorySlug}),
+        await weblate.mapComponents('remove', componentsToRemove, component =>
+            weblate.removeComponent({
+                name: component.name,
+                categorySlug: component.categorySlug,
+            }),
         );
+    }
+
+    // Remove nested categories of groups that don't exist in the code
+    const groupsInCode = componentsInCode.map(({group}) => group);
+    const nestedCategories = await weblate.getCategoryDescendants(categoryId);
 
-        await Promise.all(requests);
+    for (const category of nestedCategories) {
+        if (
+            category.path.length === 1 &&
+            !groupsInCode.includes(category.name)
+        ) {
+            await weblate.removeCategory(
+                category.id,
+                `${categorySlug}/${category.slug}`,
+            );
+        }
     }
 };
 
@@ -167,6 +500,93 @@ export const getComponentRepositoryErrors = async ({
     return errors;
 };
 
+const formatCode = (items: string[]) =>
+    items.map(item => `\`${item}\``).join(', ');
+
+type GetResyncErrorsInput = {
+    config: Configuration;
+    weblate: Weblate;
+    category: Category;
+};
+
+/**
+ * Checks that the category can be removed to be created from scratch
+ *
+ * @param input - Category of the branch or of the pull request
+ * @returns Reasons to keep the category, empty if it can be removed
+ */
+export const getResyncErrors = async ({
+    config,
+    weblate,
+    category,
+}: GetResyncErrorsInput) => {
+    const errors: string[] = [];
+    const components = await weblate.getComponentsInCategoryTree({
+        categoryId: category.id,
+        categorySlug: category.slug,
+    });
+    // Linked components share the repository of their main component
+    const mainComponents = components.filter(
+        component => !component.linked_component,
+    );
+    const repositories = await weblate.mapComponents(
+        'get repository of',
+        mainComponents,
+        async ({name, categorySlug}) =>
+            await weblate.getComponentRepository({name, categorySlug}),
+    );
+
+    for (const [index, repository] of repositories.entries()) {
+        const {name} = mainComponents[index];
+
+        if (repository.needs_commit) {
+            errors.push(
+                `Component '${name}' has uncommitted changes, commit them in Weblate first.`,
+            );
+        }
+
+        if (repository.needs_push) {
+            errors.push(
+                `Component '${name}' has changes not pushed to the repository, push them and merge the pull request from Weblate first.`,
+            );
+        }
+    }
+
+    // Components of pull requests are linked to the components of the branch category
+    if (!config.pullRequestNumber) {
+        const pullRequestCategories = (await weblate.getCategories()).filter(
+            ({name, category: parentId}) =>
+                !parentId && parsePullRequestCategoryName(name),
+        );
+        const linkedComponents = await weblate.mapComponents(
+            'get components of',
+            pullRequestCategories,
+            ({id, slug}) =>
+                weblate.getComponentsInCategoryTree({
+                    categoryId: id,
+                    categorySlug: slug,
+                }),
+        );
+        const linkedCategories = pullRequestCategories.filter((_, index) =>
+            linkedComponents[index].some(({repo}) =>
+                repo.startsWith(
+                    `weblate://${config.project}/${category.slug}/`,
+                ),
+            ),
+        );
+
+        if (linkedCategories.length) {
+            errors.push(
+                `Components of pull request categories ${formatCode(
+                    linkedCategories.map(({name}) => name),
+                )} are linked to the category. Remove them with REMOVE_BRANCH or CLEANUP_PULL_REQUESTS first.`,
+            );
+        }
+    }
+
+    return errors;
+};
+
 type PullRemoteChangesInput = {
     weblate: Weblate;
     config: Configuration;
@@ -175,7 +595,7 @@ type PullRemoteChangesInput = {
 };
 
 type PullRemoteChangesOutput = {
-    mainComponent?: Component;
+    mainComponent?: CategoryComponent;
     mergeFailureMessage?: string;
 };
 
@@ -185,8 +605,9 @@ export const pullRemoteChanges = async ({
     categoryId,
     categorySlug,
 }: PullRemoteChangesInput): Promise<PullRemoteChangesOutput> => {
-    const weblateComponents = await weblate.getComponentsInCategory({
+    const weblateComponents = await weblate.getComponentsInCategoryTree({
         categoryId,
+        categorySlug,
     });
 
     if (!weblateComponents.length) {
@@ -203,17 +624,19 @@ export const pullRemoteChanges = async ({
 
     await weblate.pullComponentRemoteChanges({
         name: mainComponent.name,
-        categorySlug,
+        categorySlug: mainComponent.categorySlug,
     });
 
-    await weblate.waitComponentsTasks({
-        componentNames: weblateComponents.map(({name}) => name),
-        categorySlug,
-    });
+    await weblate.waitComponentsTasks({components: weblateComponents});
+
+    // Changes were not pulled, so the repository state is not relevant
+    if (config.dryRun) {
+        return {mainComponent, mergeFailureMessage: undefined};
+    }
 
     const repositoryErrors = await getComponentRepositoryErrors({
         name: mainComponent.name,
-        categorySlug,
+        categorySlug: mainComponent.categorySlug,
         weblate,
         config,
     });
@@ -224,47 +647,1021 @@ export const pullRemoteChanges = async ({
     };
 };
 
-type GetUntranslatedComponentsInput = {
-    components: Component[];
-    weblate: Weblate;
-    categorySlug: string;
+type ComponentKeysets = {
+    source: Keyset;
+    translations: Array<{file: string; language: string; keyset: Keyset}>;
+};
+
+// Undefined if keys of the component format can't be parsed
+const readComponentKeysets = async (
+    component: ComponentInCode,
+    config: Configuration,
+): Promise<ComponentKeysets | undefined> => {
+    const fileFormat = getComponentFileFormat(component, config);
+    const source = parseKeyset(
+        await fs.readFile(component.source, 'utf-8'),
+        fileFormat,
+    );
+
+    if (!source) {
+        return undefined;
+    }
+
+    const files = await glob(component.fileMask, {nodir: true, posix: true});
+    const translations: ComponentKeysets['translations'] = [];
+
+    for (const file of files.sort()) {
+        const language = getLanguageFromPath(component.fileMask, file);
+
+        if (
+            language === undefined ||
+            path.normalize(file) === path.normalize(component.source)
+        ) {
+            continue;
+        }
+
+        const keyset = parseKeyset(
+            await fs.readFile(file, 'utf-8'),
+            fileFormat,
+        );
+
+        if (keyset) {
+            translations.push({file, language, keyset});
+        }
+    }
+
+    return {source, translations};
 };
 
-export const getUntranslatedComponentsError = async ({
+type GetSourceKeysDiffInput = {
+    config: Configuration;
+    octokit: ReturnType<typeof getOctokit>;
+    componentsInCode: ComponentInCode[];
+};
+
+export type ComponentKeysDiff = {
+    // Component name with the nested category, e.g. "app-a/common"
+    component: string;
+    diff: KeysetDiff;
+    // Parsing error of the source file in the base branch, the diff is empty then
+    baseError?: string;
+};
+
+const EMPTY_KEYSET_DIFF: KeysetDiff = {added: [], removed: [], changed: []};
+
+// Undefined if the format isn't supported, the error if the content can't be parsed
+const tryParseKeyset = (content: string, fileFormat: string) => {
+    try {
+        return {keyset: parseKeyset(content, fileFormat)};
+    } catch (error) {
+        return {error: (error as Error).message};
+    }
+};
+
+const MAX_KEYS_IN_DIFF = 20;
+
+const getFileContentInBranch = async ({
+    octokit,
+    filePath,
+    branch,
+}: {
+    octokit: ReturnType<typeof getOctokit>;
+    filePath: string;
+    branch: string;
+}) => {
+    try {
+        const {data} = await octokit.rest.repos.getContent({
+            ...context.repo,
+            path: path
+                .relative(process.cwd(), path.resolve(filePath))
+                .split(path.sep)
+                .join('/'),
+            ref: branch,
+            mediaType: {format: 'raw'},
+        });
+
+        return data as unknown as string;
+    } catch (error) {
+        // The file was added in the pull request
+        if ((error as {status?: number}).status === 404) {
+            return undefined;
+        }
+        throw error;
+    }
+};
+
+/**
+ * Compares source keys of the components in the pull request checkout
+ * with the base branch, doesn't use Weblate
+ *
+ * @param input - Config, GitHub client and components resolved from the checkout
+ * @returns Components with changed source keys
+ */
+export const getSourceKeysDiff = async ({
+    config,
+    octokit,
+    componentsInCode,
+}: GetSourceKeysDiffInput) => {
+    // Source files of the base branch are requested from GitHub for each component
+    const limit = createLimiter(config.maxConcurrency);
+    const diffs = await mapBatch(
+        'compare source keys of',
+        componentsInCode,
+        async (component): Promise<ComponentKeysDiff | undefined> => {
+            const fileFormat = getComponentFileFormat(component, config);
+            const head = parseKeyset(
+                await fs.readFile(component.source, 'utf-8'),
+                fileFormat,
+            );
+
+            // Keys of the format can't be compared
+            if (!head) {
+                return undefined;
+            }
+
+            const baseContent = await limit(() =>
+                getFileContentInBranch({
+                    octokit,
+                    filePath: component.source,
+                    branch: config.baseBranch,
+                }),
+            );
+            const base =
+                baseContent === undefined
+                    ? {keyset: {}}
+                    : tryParseKeyset(baseContent, fileFormat);
+
+            // The base keyset can be broken, e.g. with merge conflict markers
+            if (base.error !== undefined) {
+                return {
+                    component: getComponentPath(component),
+                    diff: EMPTY_KEYSET_DIFF,
+                    baseError: base.error,
+                };
+            }
+
+            const diff = diffKeysets(base.keyset ?? {}, head);
+
+            return isEmptyKeysetDiff(diff)
+                ? undefined
+                : {component: getComponentPath(component), diff};
+        },
+    );
+
+    return diffs.filter((diff): diff is ComponentKeysDiff => Boolean(diff));
+};
+
+const formatKeys = (keys: string[]) => {
+    const formattedKeys = keys
+        .slice(0, MAX_KEYS_IN_DIFF)
+        .map(key => `\`${key}\``)
+        .join(', ');
+
+    return keys.length > MAX_KEYS_IN_DIFF
+        ? `${formattedKeys} and ${keys.length - MAX_KEYS_IN_DIFF} more`
+        : formattedKeys;
+};
+
+/**
+ * Formats the source keys diff for the i18n-check comment
+ *
+ * @param diffs - Result of getSourceKeysDiff
+ * @returns Markdown or undefined if source keys were not changed
+ */
+export const formatSourceKeysDiff = (diffs: ComponentKeysDiff[]) => {
+    if (!diffs.length) {
+        return undefined;
+    }
+
+    const count = (kind: keyof KeysetDiff) =>
+        diffs.reduce((sum, {diff}) => sum + diff[kind].length, 0);
+
+    const components = diffs.map(({component, diff, baseError}) =>
+        [
+            `**${component}**`,
+            ...(baseError === undefined
+                ? []
+                : [
+                      `- unparsable source file in the base branch: ${baseError}`,
+                  ]),
+            ...(['added', 'removed', 'changed'] as const)
+                .filter(kind => diff[kind].length)
+                .map(kind => `- ${kind}: ${formatKeys(diff[kind])}`),
+        ].join('\n'),
+    );
+
+    return [
+        '<details>',
+        `<summary>Source keys in this pull request: ${count(
+            'added',
+        )} added, ${count('removed')} removed, ${count(
+            'changed',
+        )} changed</summary>`,
+        '',
+        components.join('\n\n'),
+        '</details>',
+    ].join('\n');
+};
+
+export type PlaceholderError = {
+    file: string;
+    key: string;
+    missing: string[];
+    extra: string[];
+};
+
+const MAX_PLACEHOLDER_ERRORS = 100;
+
+/**
+ * Compares placeholders of source strings with every translation of the components
+ *
+ * @param input - Config and components resolved from the checkout
+ * @returns Translations with mismatched placeholders
+ */
+export const getPlaceholderErrors = async ({
+    config,
+    componentsInCode,
+}: {
+    config: Configuration;
+    componentsInCode: ComponentInCode[];
+}) => {
+    const errors: PlaceholderError[] = [];
+
+    for (const component of componentsInCode) {
+        const keysets = await readComponentKeysets(component, config);
+
+        if (!keysets) {
+            continue;
+        }
+
+        for (const {file, keyset} of keysets.translations) {
+            for (const mismatch of comparePlaceholders(
+                keysets.source,
+                keyset,
+            )) {
+                errors.push({file, ...mismatch});
+            }
+        }
+    }
+
+    return errors;
+};
+
+/**
+ * Formats placeholder errors for the i18n-check comment
+ *
+ * @param errors - Result of getPlaceholderErrors
+ * @returns Markdown or undefined if there are no errors
+ */
+export const formatPlaceholderErrors = (errors: PlaceholderError[]) => {
+    if (!errors.length) {
+        return undefined;
+    }
+
+    const formatList = (label: string, placeholders: string[]) =>
+        placeholders.length ? [`${label} ${formatCode(placeholders)}`] : [];
+
+    const lines = errors
+        .slice(0, MAX_PLACEHOLDER_ERRORS)
+        .map(({file, key, missing, extra}) =>
+            [
+                `- \`${file}\` \`${key}\`:`,
+                [
+                    ...formatList('missing', missing),
+                    ...formatList('extra', extra),
+                ].join('; '),
+            ].join(' '),
+        );
+
+    if (errors.length > MAX_PLACEHOLDER_ERRORS) {
+        lines.push(`- and ${errors.length - MAX_PLACEHOLDER_ERRORS} more`);
+    }
+
+    return [
+        "Placeholders of the following translations don't match the source strings:",
+        ...lines,
+    ].join('\n');
+};
+
+export type PluralFormsError = {
+    file: string;
+    language: string;
+    // Key without the plural suffix
+    key: string;
+    missing: string[];
+    extra: string[];
+};
+
+/**
+ * Checks plural forms of i18next keysets against CLDR rules of their languages
+ *
+ * @param input - Config and components resolved from the checkout
+ * @returns Keys with missing or extra plural forms
+ */
+export const getPluralFormsErrors = async ({
+    config,
+    componentsInCode,
+}: {
+    config: Configuration;
+    componentsInCode: ComponentInCode[];
+}) => {
+    const errors: PluralFormsError[] = [];
+    const skippedLanguages = new Set<string>();
+
+    for (const component of componentsInCode) {
+        if (getComponentFileFormat(component, config) !== 'i18next') {
+            continue;
+        }
+
+        const keysets = await readComponentKeysets(component, config);
+
+        if (!keysets) {
+            continue;
+        }
+
+        const checkedKeysets = [
+            {
+                file: component.source,
+                language:
+                    component.settings?.source_language ?? config.mainLanguage,
+                keyset: keysets.source,
+            },
+            ...keysets.translations,
+        ];
+
+        for (const {file, language, keyset} of checkedKeysets) {
+            if (!getPluralCategories(language)) {
+                if (!skippedLanguages.has(language)) {
+                    warning(
+                        `Plural forms of language '${language}' are not checked: no CLDR plural rules for it, e.g. ${file}`,
+                    );
+                    skippedLanguages.add(language);
+                }
+                continue;
+            }
+
+            for (const mismatch of checkPluralForms({
+                source: keysets.source,
+                keyset,
+                language,
+            })) {
+                errors.push({file, language, ...mismatch});
+            }
+        }
+    }
+
+    return errors;
+};
+
+/**
+ * Formats plural forms errors for the i18n-check comment
+ *
+ * @param errors - Result of getPluralFormsErrors
+ * @returns Markdown or undefined if there are no errors
+ */
+export const formatPluralFormsErrors = (errors: PluralFormsError[]) => {
+    if (!errors.length) {
+        return undefined;
+    }
+
+    const lines = errors.map(({file, language, key, missing, extra}) =>
+        [
+            `- \`${file}\` \`${key}\` (${language}):`,
+            [
+                ...(missing.length ? [`missing ${formatCode(missing)}`] : []),
+                ...(extra.length ? [`extra ${formatCode(extra)}`] : []),
+            ].join('; '),
+        ].join(' '),
+    );
+
+    return [
+        "Plural forms of the following keys don't match plural rules of the language:",
+        ...lines,
+    ].join('\n');
+};
+
+const MAX_UNUSED_KEYS_IN_LOG = 50;
+
+/**
+ * Scans application sources for used keys and reports unused and undefined keys
+ * Does nothing if SOURCE_SCAN_PATHS is empty
+ *
+ * @param input - Config and components resolved from the checkout
+ * @returns Report of the scan or undefined if the scan is disabled
+ */
+export const reportKeysUsage = async ({
+    config,
+    componentsInCode,
+}: {
+    config: Configuration;
+    componentsInCode: ComponentInCode[];
+}) => {
+    if (!config.sourceScanPaths.length) {
+        return undefined;
+    }
+
+    const patterns = getKeyPatterns(config.sourceScanPatterns);
+    const keysByComponent: Record<string, string[]> = {};
+
+    for (const component of componentsInCode) {
+        const keyset = parseKeyset(
+            await fs.readFile(component.source, 'utf-8'),
+            getComponentFileFormat(component, config),
+        );
+
+        if (keyset) {
+            keysByComponent[getComponentPath(component)] = Object.keys(keyset);
+        }
+    }
+
+    const files = await glob(config.sourceScanPaths, {
+        nodir: true,
+        posix: true,
+        ignore: ['**/node_modules/**'],
+    });
+    const usages = [];
+
+    for (const file of files.sort()) {
+        usages.push(
+            ...findKeysInCode(await fs.readFile(file, 'utf-8'), file, patterns),
+        );
+    }
+
+    const report = getKeysUsageReport(keysByComponent, usages);
+
+    for (const {key, file, line} of report.undefined) {
+        warning(`Key '${key}' is not defined in the source language`, {
+            title: 'Undefined translation key',
+            file,
+            startLine: line,
+        });
+    }
+
+    const unusedLines = Object.entries(report.unused).flatMap(
+        ([component, keys]) => [
+            `  ${component} (${keys.length}):`,
+            ...keys.slice(0, MAX_UNUSED_KEYS_IN_LOG).map(key => `    ${key}`),
+            ...(keys.length > MAX_UNUSED_KEYS_IN_LOG
+                ? [`    and ${keys.length - MAX_UNUSED_KEYS_IN_LOG} more`]
+                : []),
+        ],
+    );
+
+    console.log(
+        [
+            `Scanned ${files.length} source files, found ${usages.length} key usages`,
+            `Undefined keys: ${report.undefined.length}`,
+            `Unused keys: ${Object.values(report.unused).flat().length}`,
+            ...unusedLines,
+        ].join('\n'),
+    );
+
+    return report;
+};
+
+type TranslationStats = {
+    component: CategoryComponent;
+    stats: ComponentTranslationStats;
+};
+
+// Strings listed for one translation and in the whole comment
+const MAX_UNITS_PER_TRANSLATION = 20;
+const MAX_LISTED_UNITS = 100;
+const MAX_UNIT_TEXT_LENGTH = 80;
+// Strings requested for each check of a translation
+const MAX_UNITS_PER_CHECK = 20;
+
+type UntranslatedTranslation = TranslationStats & {
+    // Untranslated and fuzzy strings
+    pending: number;
+    units: TranslationUnit[];
+};
+
+type FailingChecksUnit = {
+    component: CategoryComponent;
+    language: string;
+    key: string;
+    // Names of failing Weblate checks (e.g., "placeholders")
+    checks: string[];
+    url: string;
+};
+
+const getComponentDisplayName = (component: CategoryComponent) =>
+    component.name.split('__')[0];
+
+const groupByComponent = <T extends {component: CategoryComponent}>(
+    items: T[],
+) => {
+    const groups = new Map<string, T[]>();
+
+    for (const item of items) {
+        const name = getComponentDisplayName(item.component);
+
+        groups.set(name, [...(groups.get(name) ?? []), item]);
+    }
+
+    return groups;
+};
+
+const formatUnitText = (text = '') => {
+    const line = text.replace(/\s+/g, ' ').trim();
+    const truncated =
+        line.length > MAX_UNIT_TEXT_LENGTH
+            ? `${line.slice(0, MAX_UNIT_TEXT_LENGTH - 1)}…`
+            : line;
+
+    // The comment is rendered as markdown with html
+    return truncated.replace(/</g, '&lt;');
+};
+
+const getUnitKey = (unit: TranslationUnit) => unit.context || unit.source[0];
+
+const getTranslationsStats = async ({
     components,
     weblate,
-    categorySlug,
-}: GetUntranslatedComponentsInput) => {
-    const componentsStats = await Promise.all(
-        components.map(component =>
+}: {
+    components: CategoryComponent[];
+    weblate: Weblate;
+}): Promise<TranslationStats[]> => {
+    const componentsStats = await weblate.mapComponents(
+        'get statistics of',
+        components,
+        component =>
             weblate.getComponentTranslationsStats({
                 name: component.name,
-                categorySlug,
+                categorySlug: component.categorySlug,
             }),
-        ),
     );
 
-    const failedComponents = componentsStats
-        .flat()
-        .filter(stats => stats.translated_percent !== 100);
+    return componentsStats.flatMap((stats, index) =>
+        stats.map(translationStats => ({
+            component: components[index],
+            stats: translationStats,
+        })),
+    );
+};
 
-    if (failedComponents.length) {
-        const failedComponentsLinks = failedComponents
-            .map(stat => {
-                const name = stat.componentName.split('__')[0];
-                return `<a href="${stat.url}">${name} (${stat.code})</a>`;
-            })
-            .join('<br>');
+const getUntranslatedTranslations = async ({
+    translations,
+    weblate,
+}: {
+    translations: TranslationStats[];
+    weblate: Weblate;
+}): Promise<UntranslatedTranslation[]> => {
+    // Strings are requested only for the listed part, other ones are counted by statistics
+    let unitsLeft = MAX_LISTED_UNITS;
+    const untranslated = translations
+        .filter(({stats}) => stats.translated_percent !== 100)
+        .map(({component, stats}) => {
+            const pending = stats.total - stats.translated;
+            const limit = Math.min(
+                pending,
+                MAX_UNITS_PER_TRANSLATION,
+                unitsLeft,
+            );
+            unitsLeft -= limit;
 
-        return [
-            '**i18n-check**',
-            '<details>',
-            '<summary>The following components have not been translated</summary>',
-            `<p>${failedComponentsLinks}</p>`,
-            '</details>',
-            '\nWait for the reviewers to check your changes in Weblate and try running github action again.',
-        ].join('\n');
+            return {
+                name: component.name,
+                categorySlug: component.categorySlug,
+                component,
+                stats,
+                pending,
+                limit,
+            };
+        });
+
+    const units = await weblate.mapComponents(
+        'get untranslated strings of',
+        untranslated,
+        async ({name, categorySlug, stats, limit}) =>
+            limit
+                ? (
+                      await weblate.getTranslationUnits({
+                          name,
+                          categorySlug,
+                          language: stats.code,
+                          query: 'state:<translated',
+                          pageSize: limit,
+                      })
+                  ).results.slice(0, limit)
+                : [],
+    );
+
+    return untranslated.map(({component, stats, pending}, index) => ({
+        component,
+        stats,
+        pending,
+        units: units[index],
+    }));
+};
+
+const formatUntranslatedTranslations = (
+    translations: UntranslatedTranslation[],
+) => {
+    const byComponent = groupByComponent(translations);
+
+    const components = [...byComponent].map(([name, componentTranslations]) =>
+        [
+            `**${name}**`,
+            ...componentTranslations.flatMap(({stats, pending, units}) => {
+                const link = `[${name} (${stats.code})](${stats.url})`;
+                const rest = pending - units.length;
+
+                return [
+                    ...units.map(
+                        unit =>
+                            `- \`${getUnitKey(unit)}\` (${stats.code}${
+                                unit.fuzzy ? ', fuzzy' : ''
+                            }): ${formatUnitText(
+                                unit.source[0],
+                            )} — [translate](${unit.web_url})`,
+                    ),
+                    ...(rest > 0
+                        ? [
+                              units.length
+                                  ? `- and ${rest} more in ${link}`
+                                  : `- ${rest} strings in ${link}`,
+                          ]
+                        : []),
+                ];
+            }),
+        ].join('\n'),
+    );
+    const total = translations.reduce((sum, {pending}) => sum + pending, 0);
+
+    return [
+        '<details>',
+        `<summary>${total} strings are not translated in ${byComponent.size} components</summary>`,
+        '',
+        components.join('\n\n'),
+        '</details>',
+    ].join('\n');
+};
+
+/**
+ * Finds strings failing Weblate quality checks
+ *
+ * @param input - Statistics of translations and names of checks
+ * @returns Failing strings with names of their failing checks
+ */
+export const getFailingChecks = async ({
+    translations,
+    weblate,
+    checks,
+}: {
+    translations: TranslationStats[];
+    weblate: Weblate;
+    checks: string[];
+}) => {
+    // Units of Weblate don't include checks, so strings are searched for each check
+    const searches = translations
+        .filter(({stats}) => stats.failing > 0)
+        .flatMap(({component, stats}) =>
+            checks.map(check => ({
+                name: component.name,
+                categorySlug: component.categorySlug,
+                component,
+                language: stats.code,
+                check,
+            })),
+        );
+
+    const results = await weblate.mapComponents(
+        'get failing checks of',
+        searches,
+        async ({name, categorySlug, language, check}) =>
+            (
+                await weblate.getTranslationUnits({
+                    name,
+                    categorySlug,
+                    language,
+                    query: `check:${check}`,
+                    pageSize: MAX_UNITS_PER_CHECK,
+                })
+            ).results,
+    );
+
+    const failingUnits = new Map<string, FailingChecksUnit>();
+
+    for (const [index, units] of results.entries()) {
+        const {component, language, check} = searches[index];
+
+        for (const unit of units.slice(0, MAX_UNITS_PER_CHECK)) {
+            const failingUnit: FailingChecksUnit = failingUnits.get(
+                unit.id,
+            ) ?? {
+                component,
+                language,
+                key: getUnitKey(unit),
+                checks: [],
+                url: unit.web_url,
+            };
+
+            failingUnit.checks.push(check);
+            failingUnits.set(unit.id, failingUnit);
+        }
+    }
+
+    return [...failingUnits.values()];
+};
+
+/**
+ * Formats strings failing Weblate quality checks for the i18n-check comment
+ *
+ * @param units - Result of getFailingChecks
+ * @param blockingChecks - Names of checks that fail the pull request, they are marked in bold
+ * @returns Markdown
+ */
+export const formatFailingChecks = (
+    units: FailingChecksUnit[],
+    blockingChecks: string[],
+) => {
+    const byComponent = groupByComponent(units.slice(0, MAX_LISTED_UNITS));
+
+    const components = [...byComponent].map(([name, componentUnits]) =>
+        [
+            `**${name}**`,
+            ...componentUnits.map(
+                ({key, language, checks, url}) =>
+                    `- \`${key}\` (${language}): ${checks
+                        .map(check =>
+                            blockingChecks.includes(check)
+                                ? `**${check}**`
+                                : check,
+                        )
+                        .join(', ')} — [translate](${url})`,
+            ),
+        ].join('\n'),
+    );
+
+    return [
+        '<details>',
+        `<summary>${units.length} strings fail Weblate quality checks</summary>`,
+        '',
+        components.join('\n\n'),
+        ...(units.length > MAX_LISTED_UNITS
+            ? [`- and ${units.length - MAX_LISTED_UNITS} more`]
+            : []),
+        '</details>',
+    ].join('\n');
+};
+
+type GatedTranslation = TranslationStats & {
+    violations: string[];
+    blocking: boolean;
+};
+
+const getGatedTranslations = (
+    translations: TranslationStats[],
+    policy: GatingPolicy,
+): GatedTranslation[] =>
+    translations
+        // Source strings are not translated or approved
+        .filter(
+            ({component, stats}) =>
+                stats.code !== component.source_language?.code,
+        )
+        .map(translation => {
+            const thresholds = getLanguageThresholds(
+                policy,
+                translation.stats.code,
+            );
+
+            return {
+                ...translation,
+                violations: getGatingViolations(translation.stats, thresholds),
+                blocking: thresholds.blocking !== false,
+            };
+        })
+        .filter(({violations}) => violations.length);
+
+const formatGatedTranslations = (translations: GatedTranslation[]) => [
+    '<details>',
+    `<summary>${translations.length} translations don't meet the requirements</summary>`,
+    '',
+    ...translations.map(
+        ({component, stats, violations, blocking}) =>
+            `- [${getComponentDisplayName(component)} (${stats.code})](${
+                stats.url
+            }): ${violations.join(', ')}${blocking ? '' : ' (non-blocking)'}`,
+    ),
+    '</details>',
+];
+
+const getTranslationsReportConclusion = ({
+    blocking,
+    passing,
+}: {
+    blocking: boolean;
+    // Translations are complete and checks pass, only source keys are reported
+    passing: boolean;
+}) => {
+    if (blocking) {
+        return '\nWait for the reviewers to check your changes in Weblate and try running github action again.';
+    }
+
+    return passing
+        ? '\nTranslations are complete and checks pass.'
+        : '\nOnly non-blocking languages are incomplete or non-blocking checks fail, the check passes.';
+};
+
+type GetTranslationsReportInput = {
+    components: CategoryComponent[];
+    weblate: Weblate;
+    // Formatted result of getSourceKeysDiff
+    sourceKeysDiff?: string;
+    // Thresholds of translations from the config file
+    gating?: GatingPolicy;
+    // Names of Weblate checks listed in the comment
+    qualityChecks?: string[];
+    // Names of Weblate checks that fail the pull request
+    blockingChecks?: string[];
+};
+
+/**
+ * Checks translations of the pull request category with the gating policy
+ *
+ * @param input - Components of the pull request category, the policy and checks
+ * @returns Markdown for the i18n-check comment and whether the pull request fails,
+ * or undefined if there is nothing to report
+ */
+export const getTranslationsReport = async ({
+    components,
+    weblate,
+    sourceKeysDiff,
+    gating = {},
+    qualityChecks = [],
+    blockingChecks = [],
+}: GetTranslationsReportInput) => {
+    const translations = await getTranslationsStats({components, weblate});
+    const gatedTranslations = getGatedTranslations(translations, gating);
+    const untranslated = await getUntranslatedTranslations({
+        translations: gatedTranslations,
+        weblate,
+    });
+    const failingChecks = await getFailingChecks({
+        translations,
+        weblate,
+        checks: uniq([...qualityChecks, ...blockingChecks]),
+    });
+    const blockingUnits = failingChecks.filter(({checks}) =>
+        checks.some(check => blockingChecks.includes(check)),
+    );
+    const blocking =
+        gatedTranslations.some(translation => translation.blocking) ||
+        blockingUnits.length > 0;
+
+    if (failingChecks.length) {
+        console.log(
+            `Strings failing Weblate checks: ${failingChecks.length}, blocking: ${blockingUnits.length}`,
+        );
+    }
+
+    // Non-blocking checks don't fail the pull request but are still listed in the comment
+    if (!gatedTranslations.length && !failingChecks.length && !sourceKeysDiff) {
+        return undefined;
+    }
+
+    const comment = [
+        '**i18n-check**',
+        ...(gatedTranslations.length
+            ? formatGatedTranslations(gatedTranslations)
+            : []),
+        ...(untranslated.length
+            ? [formatUntranslatedTranslations(untranslated)]
+            : []),
+        ...(failingChecks.length
+            ? [formatFailingChecks(failingChecks, blockingChecks)]
+            : []),
+        ...(sourceKeysDiff ? [sourceKeysDiff] : []),
+        ...(blockingUnits.length
+            ? [
+                  `\nStrings failing ${formatCode(
+                      blockingChecks,
+                  )} checks must be fixed in Weblate.`,
+              ]
+            : []),
+        getTranslationsReportConclusion({
+            blocking,
+            passing: !gatedTranslations.length && !failingChecks.length,
+        }),
+    ].join('\n');
+
+    return {comment, blocking};
+};
+
+type CleanupPullRequestCategoriesInput = {
+    config: Configuration;
+    weblate: Weblate;
+    octokit: ReturnType<typeof getOctokit>;
+};
+
+export type CleanupReportEntry = {
+    category: string;
+    pullRequestNumber: number;
+    status:
+        | 'removed'
+        | 'open'
+        | 'allowlisted'
+        | 'too-recent'
+        | 'pull-request-not-found';
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const cleanupPullRequestCategories = async ({
+    config,
+    weblate,
+    octokit,
+}: CleanupPullRequestCategoriesInput) => {
+    const categories = await weblate.getCategories();
+    const report: CleanupReportEntry[] = [];
+
+    for (const category of categories) {
+        const parsedName = parsePullRequestCategoryName(category.name);
+
+        // Pull request categories are top-level ones
+        if (!parsedName || category.category) {
+            continue;
+        }
+
+        const {pullRequestNumber} = parsedName;
+        const addToReport = (status: CleanupReportEntry['status']) =>
+            report.push({category: category.name, pullRequestNumber, status});
+
+        if (
+            config.cleanupAllowlist.some(pattern =>
+                minimatch(category.name, pattern),
+            )
+        ) {
+            addToReport('allowlisted');
+            continue;
+        }
+
+        let pullRequest;
+
+        try {
+            ({data: pullRequest} = await octokit.rest.pulls.get({
+                ...context.repo,
+                pull_number: pullRequestNumber,
+            }));
+        } catch (error) {
+            if ((error as {status?: number}).status === 404) {
+                addToReport('pull-request-not-found');
+                continue;
+            }
+            throw error;
+        }
+
+        if (pullRequest.state !== 'closed') {
+            addToReport('open');
+            continue;
+        }
+
+        const closedAt = pullRequest.closed_at
+            ? new Date(pullRequest.closed_at).getTime()
+            : 0;
+
+        if (Date.now() - closedAt < config.cleanupMinAgeDays * DAY) {
+            addToReport('too-recent');
+            continue;
+        }
+
+        await weblate.removeCategory(category.id, category.name);
+        addToReport('removed');
+    }
+
+    return report;
+};
+
+export const formatCleanupReport = (
+    report: CleanupReportEntry[],
+    dryRun: boolean,
+) => {
+    const statusToTitle: Record<CleanupReportEntry['status'], string> = {
+        removed: dryRun ? 'To remove' : 'Removed',
+        open: 'Kept, pull request is open',
+        allowlisted: 'Kept, category is in the allowlist',
+        'too-recent': 'Kept, pull request was closed recently',
+        'pull-request-not-found': 'Kept, pull request not found',
+    };
+
+    const lines = [`Found ${report.length} pull request categories`];
+
+    for (const [status, title] of Object.entries(statusToTitle)) {
+        const entries = report.filter(entry => entry.status === status);
+
+        if (entries.length) {
+            lines.push(
+                `\n${title} (${entries.length}):`,
+                ...entries.map(
+                    ({category, pullRequestNumber}) =>
+                        `  ${category} (#${pullRequestNumber})`,
+                ),
+            );
+        }
     }
 
-    return undefined;
+    return lines.join('\n');
 };
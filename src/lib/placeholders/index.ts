@@ -0,0 +1 @@
+export {comparePlaceholders, extractPlaceholders} from './placeholders';
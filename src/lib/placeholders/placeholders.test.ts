@@ -0,0 +1,78 @@
+import {comparePlaceholders, extractPlaceholders} from './placeholders';
+
+describe('extractPlaceholders', () => {
+    it('should extract i18next interpolations and nestings', () => {
+        expect(
+            extractPlaceholders(
+                'Hello {{- name}}, you have {{count, number}} $t(items, {"count": 1})',
+            ),
+        ).toEqual(['$t(items)', '{{count}}', '{{name}}']);
+    });
+
+    it('should extract HTML tags', () => {
+        expect(extractPlaceholders('<b class="x">Save</b><br/>')).toEqual([
+            '</b>',
+            '<b>',
+            '<br/>',
+        ]);
+    });
+
+    it('should extract ICU arguments without plural branches', () => {
+        expect(
+            extractPlaceholders(
+                '{name} has {count, plural, one {# item} other {# items in {place}}}',
+            ),
+        ).toEqual(['{count}', '{name}', '{place}']);
+        expect(
+            extractPlaceholders('{gender, select, male {He} other {They}}'),
+        ).toEqual(['{gender}']);
+    });
+
+    it('should ignore plain text', () => {
+        expect(extractPlaceholders('Price: 5 < 10 {}')).toEqual([]);
+    });
+});
+
+describe('comparePlaceholders', () => {
+    it('should report missing and extra placeholders', () => {
+        expect(
+            comparePlaceholders(
+                {greeting: 'Hello, {{name}}', title: '<b>Title</b>'},
+                {greeting: 'Привет, {{user}}', title: '<b>Заголовок</b>'},
+            ),
+        ).toEqual([
+            {key: 'greeting', missing: ['{{name}}'], extra: ['{{user}}']},
+        ]);
+    });
+
+    it('should compare plural forms of the language with all source plural forms', () => {
+        expect(
+            comparePlaceholders(
+                {item_one: 'One item', item_other: '{{count}} items'},
+                {
+                    item_one: '{{count}} предмет',
+                    item_few: '{{count}} предмета',
+                    item_many: 'предметов',
+                },
+            ),
+        ).toEqual([{key: 'item_many', missing: ['{{count}}'], extra: []}]);
+    });
+
+    it('should report placeholders absent in all source plural forms', () => {
+        expect(
+            comparePlaceholders(
+                {item_one: 'One item', item_other: '{{count}} items'},
+                {item_one: '{{count}} {{name}}', item_other: '{{count}}'},
+            ),
+        ).toEqual([{key: 'item_one', missing: [], extra: ['{{name}}']}]);
+    });
+
+    it('should skip empty translations and unknown keys', () => {
+        expect(
+            comparePlaceholders(
+                {title: '{{name}}'},
+                {title: '', other: '{{x}}'},
+            ),
+        ).toEqual([]);
+    });
+});
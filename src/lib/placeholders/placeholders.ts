@@ -0,0 +1,225 @@
+import {splitPluralKey} from '../keysets';
+import type {Keyset} from '../keysets/types';
+
+export type PlaceholderMismatch = {
+    key: string;
+    // Placeholders of the source string absent in the translation
+    missing: string[];
+    // Placeholders of the translation absent in the source string
+    extra: string[];
+};
+
+const I18NEXT_INTERPOLATION = /\{\{(.*?)\}\}/g;
+const I18NEXT_NESTING = /\$t\(\s*([^,)]+?)\s*[,)]/g;
+const HTML_TAG = /<(\/?)([a-zA-Z][\w-]*)(?:\s[^<>]*?)?\s*(\/?)>/g;
+const ICU_COMPLEX_TYPES = ['plural', 'select', 'selectordinal'];
+
+// Names of ICU arguments, messages in plural and select branches are parsed recursively
+const getIcuArguments = (message: string) => {
+    const names: string[] = [];
+    let index = 0;
+
+    const readUntil = (stopChars: string) => {
+        const start = index;
+
+        while (index < message.length && !stopChars.includes(message[index])) {
+            index++;
+        }
+
+        return message.slice(start, index).trim();
+    };
+
+    const skipBlock = () => {
+        let depth = 1;
+
+        while (index < message.length && depth) {
+            if (message[index] === '{') {
+                depth++;
+            } else if (message[index] === '}') {
+                depth--;
+            }
+            index++;
+        }
+    };
+
+    // Declarations are hoisted: messages and arguments are parsed mutually recursively
+    function parseMessage(nested: boolean) {
+        while (index < message.length) {
+            if (message[index] === '{') {
+                index++;
+                parseArgument();
+            } else if (message[index] === '}' && nested) {
+                return;
+            } else {
+                index++;
+            }
+        }
+    }
+
+    function parseArgument() {
+        const name = readUntil(',{}');
+
+        if (!/^[\w$.-]+$/.test(name) || message[index] === '{') {
+            // Not an argument, e.g. a brace in the text
+            skipBlock();
+            return;
+        }
+
+        names.push(name);
+
+        if (message[index] === '}') {
+            index++;
+            return;
+        }
+
+        index++;
+        const type = readUntil(',}');
+
+        if (!ICU_COMPLEX_TYPES.includes(type) || message[index] === '}') {
+            skipBlock();
+            return;
+        }
+
+        index++;
+
+        // Branches like "one {# item} other {# items}"
+        while (index < message.length) {
+            readUntil('{}');
+
+            if (message[index] !== '{') {
+                index++;
+                return;
+            }
+
+            index++;
+            parseMessage(true);
+            index++;
+        }
+    }
+
+    parseMessage(false);
+
+    return names;
+};
+
+/**
+ * Extracts placeholders that must be kept in translations
+ *
+ * @param value - Source string or translation
+ * @returns Sorted placeholders: i18next interpolations, $t() nestings, HTML tags and ICU arguments
+ */
+export const extractPlaceholders = (value: string) => {
+    const placeholders: string[] = [];
+
+    const withoutInterpolations = value.replace(
+        I18NEXT_INTERPOLATION,
+        (_match, content: string) => {
+            // "{{- name}}" is unescaped, "{{name, number}}" is formatted
+            const name = content.replace(/^\s*-/, '').split(',')[0].trim();
+            placeholders.push(`{{${name}}}`);
+            return '';
+        },
+    );
+
+    for (const [, key] of value.matchAll(I18NEXT_NESTING)) {
+        placeholders.push(`$t(${key})`);
+    }
+
+    const withoutTags = withoutInterpolations.replace(
+        HTML_TAG,
+        (_match, closing: string, name: string, selfClosing: string) => {
+            placeholders.push(
+                `<${closing}${name.toLowerCase()}${selfClosing}>`,
+            );
+            return '';
+        },
+    );
+
+    placeholders.push(
+        ...getIcuArguments(withoutTags.replace(I18NEXT_NESTING, '')).map(
+            name => `{${name}}`,
+        ),
+    );
+
+    return placeholders.sort();
+};
+
+const hasKey = (keyset: Keyset, key: string) =>
+    Object.prototype.hasOwnProperty.call(keyset, key);
+
+const subtract = (list: string[], other: string[]) => {
+    const rest = [...other];
+
+    return list.filter(item => {
+        const index = rest.indexOf(item);
+
+        if (index === -1) {
+            return true;
+        }
+
+        rest.splice(index, 1);
+        return false;
+    });
+};
+
+// Multiset union: a placeholder is kept as many times as it occurs in the list with most of them
+const mergePlaceholders = (lists: string[][]) =>
+    lists
+        .reduce(
+            (merged, list) => [...merged, ...subtract(list, merged)],
+            [] as string[],
+        )
+        .sort();
+
+// Languages have different plural forms, e.g. Russian "item_one" also covers 21 and needs "{{count}}",
+// so a plural form is compared with the placeholders of all plural forms of the source string
+const getSourcePlaceholders = (source: Keyset, key: string) => {
+    const pluralKey = splitPluralKey(key);
+    const pluralForms = pluralKey
+        ? Object.keys(source).filter(
+              sourceKey => splitPluralKey(sourceKey)?.base === pluralKey.base,
+          )
+        : [];
+
+    if (pluralForms.length) {
+        return mergePlaceholders(
+            pluralForms.map(sourceKey =>
+                extractPlaceholders(source[sourceKey]),
+            ),
+        );
+    }
+
+    return hasKey(source, key) ? extractPlaceholders(source[key]) : undefined;
+};
+
+/**
+ * Compares placeholders of source strings and translations
+ *
+ * @param source - Keyset of the source language
+ * @param translation - Keyset of the translation
+ * @returns Keys with different placeholders
+ */
+export const comparePlaceholders = (
+    source: Keyset,
+    translation: Keyset,
+): PlaceholderMismatch[] => {
+    const mismatches: PlaceholderMismatch[] = [];
+
+    for (const [key, value] of Object.entries(translation)) {
+        const sourcePlaceholders = getSourcePlaceholders(source, key);
+
+        if (!value || !sourcePlaceholders) {
+            continue;
+        }
+
+        const translationPlaceholders = extractPlaceholders(value);
+        const missing = subtract(sourcePlaceholders, translationPlaceholders);
+        const extra = subtract(translationPlaceholders, sourcePlaceholders);
+
+        if (missing.length || extra.length) {
+            mismatches.push({key, missing, extra});
+        }
+    }
+
+    return mismatches;
+};
@@ -0,0 +1,89 @@
+import {Plan} from '.';
+
+describe('Plan', () => {
+    it('should report that nothing is planned', () => {
+        const plan = new Plan();
+
+        expect(plan.size).toBe(0);
+        expect(plan.format()).toBe(
+            'Dry run: no changes in Weblate are planned',
+        );
+    });
+
+    it('should format planned actions in order', () => {
+        const plan = new Plan();
+
+        plan.add({
+            type: 'create-category',
+            name: 'feature__1',
+            slug: 'feature-1',
+        });
+        plan.add({
+            type: 'create-component',
+            name: 'common__1',
+            categorySlug: 'feature-1',
+            repo: 'https://github.com/org/repo',
+            branch: 'feature',
+            fileMask: 'src/i18n/common/*.json',
+            source: 'src/i18n/common/en.json',
+        });
+        plan.add({
+            type: 'install-addon',
+            component: 'common__1',
+            categorySlug: 'feature-1',
+            addon: 'weblate.git.squash',
+        });
+        plan.add({
+            type: 'update-addon',
+            component: 'common',
+            addon: 'weblate.json.customize',
+        });
+        plan.add({
+            type: 'remove-addon',
+            component: 'common',
+            addon: 'weblate.flags.same_edit',
+        });
+        plan.add({type: 'remove-component', name: 'legacy'});
+        plan.add({
+            type: 'remove-category',
+            id: '3',
+            components: ['common__2'],
+        });
+
+        expect(plan.size).toBe(7);
+        expect(plan.format().split('\n')).toEqual([
+            'Dry run: 7 change(s) planned in Weblate',
+            "+ create category 'feature__1' (slug: feature-1)",
+            "+ create component 'feature-1/common__1'",
+            '    repo: https://github.com/org/repo (branch: feature)',
+            '    filemask: src/i18n/common/*.json',
+            '    source: src/i18n/common/en.json',
+            "+ install addon 'weblate.git.squash' on 'feature-1/common__1'",
+            "~ update configuration of addon 'weblate.json.customize' on 'common'",
+            "- remove addon 'weblate.flags.same_edit' from 'common'",
+            "- remove component 'legacy'",
+            "- remove category '3'",
+            "    - with component 'common__2'",
+        ]);
+    });
+
+    it('should serialize a copy of the actions', () => {
+        const plan = new Plan();
+
+        plan.add({
+            type: 'pull-component',
+            name: 'common',
+            categorySlug: 'master',
+        });
+
+        const json = plan.toJSON();
+        json.pop();
+
+        expect(plan.toJSON()).toEqual([
+            {type: 'pull-component', name: 'common', categorySlug: 'master'},
+        ]);
+        expect(JSON.stringify(plan)).toBe(
+            '[{"type":"pull-component","name":"common","categorySlug":"master"}]',
+        );
+    });
+});
@@ -0,0 +1,135 @@
+export type PlannedAction =
+    | {type: 'create-category'; name: string; slug: string}
+    | {
+          type: 'remove-category';
+          id: string;
+          name?: string;
+          components: string[];
+      }
+    | {
+          type: 'create-component';
+          name: string;
+          categorySlug?: string;
+          repo: string;
+          branch?: string;
+          fileMask: string;
+          source: string;
+      }
+    | {
+          type: 'update-component' | 'relink-component';
+          name: string;
+          categorySlug?: string;
+          repo: string;
+          branch?: string;
+          fileMask?: string;
+      }
+    | {type: 'remove-component'; name: string; categorySlug?: string}
+    | {type: 'pull-component'; name: string; categorySlug?: string}
+    | {
+          type: 'install-addon' | 'update-addon';
+          component: string;
+          categorySlug?: string;
+          addon: string;
+          configuration?: Record<string, unknown>;
+      }
+    | {
+          type: 'remove-addon';
+          component: string;
+          categorySlug?: string;
+          addon: string;
+      };
+
+const getComponentPath = ({
+    name,
+    categorySlug,
+}: {
+    name: string;
+    categorySlug?: string;
+}) => (categorySlug ? `${categorySlug}/${name}` : name);
+
+const formatAction = (action: PlannedAction) => {
+    switch (action.type) {
+        case 'create-category':
+            return `+ create category '${action.name}' (slug: ${action.slug})`;
+        case 'remove-category':
+            return [
+                `- remove category '${action.name ?? action.id}'`,
+                ...action.components.map(
+                    name => `    - with component '${name}'`,
+                ),
+            ].join('\n');
+        case 'create-component':
+            return [
+                `+ create component '${getComponentPath(action)}'`,
+                `    repo: ${action.repo}${
+                    action.branch ? ` (branch: ${action.branch})` : ''
+                }`,
+                `    filemask: ${action.fileMask}`,
+                `    source: ${action.source}`,
+            ].join('\n');
+        case 'update-component':
+            return [
+                `~ update component '${getComponentPath(action)}'`,
+                `    repo: ${action.repo}${
+                    action.branch ? ` (branch: ${action.branch})` : ''
+                }`,
+            ].join('\n');
+        case 'relink-component':
+            return `~ relink component '${getComponentPath(action)}' to ${
+                action.repo
+            }`;
+        case 'remove-component':
+            return `- remove component '${getComponentPath(action)}'`;
+        case 'pull-component':
+            return `~ pull remote changes into '${getComponentPath(action)}'`;
+        case 'install-addon':
+            return `+ install addon '${action.addon}' on '${getComponentPath({
+                name: action.component,
+                categorySlug: action.categorySlug,
+            })}'`;
+        case 'update-addon':
+            return `~ update configuration of addon '${
+                action.addon
+            }' on '${getComponentPath({
+                name: action.component,
+                categorySlug: action.categorySlug,
+            })}'`;
+        case 'remove-addon':
+            return `- remove addon '${action.addon}' from '${getComponentPath({
+                name: action.component,
+                categorySlug: action.categorySlug,
+            })}'`;
+    }
+
+    return '';
+};
+
+/**
+ * Collects Weblate mutations instead of applying them (DRY_RUN mode)
+ */
+export class Plan {
+    private actions: PlannedAction[] = [];
+
+    add(action: PlannedAction) {
+        this.actions.push(action);
+    }
+
+    get size() {
+        return this.actions.length;
+    }
+
+    toJSON() {
+        return [...this.actions];
+    }
+
+    format() {
+        if (!this.actions.length) {
+            return 'Dry run: no changes in Weblate are planned';
+        }
+
+        return [
+            `Dry run: ${this.actions.length} change(s) planned in Weblate`,
+            ...this.actions.map(formatAction),
+        ].join('\n');
+    }
+}
@@ -0,0 +1 @@
+export {checkPluralForms, getPluralCategories} from './plurals';
@@ -0,0 +1,65 @@
+import {checkPluralForms, getPluralCategories} from './plurals';
+
+describe('getPluralCategories', () => {
+    it('should return CLDR plural categories of the language', () => {
+        expect(getPluralCategories('ru')).toEqual([
+            'few',
+            'many',
+            'one',
+            'other',
+        ]);
+        expect(getPluralCategories('en_US')).toEqual(['one', 'other']);
+        expect(getPluralCategories('ja')).toEqual(['other']);
+    });
+
+    it('should return undefined for invalid codes', () => {
+        expect(getPluralCategories('not a language')).toBeUndefined();
+    });
+
+    it('should return undefined for codes without plural rules', () => {
+        expect(getPluralCategories('xx')).toBeUndefined();
+        expect(getPluralCategories('tlh')).toBeUndefined();
+    });
+});
+
+describe('checkPluralForms', () => {
+    const source = {
+        item_one: '{{count}} item',
+        item_other: '{{count}} items',
+        step_one: 'Step one',
+    };
+
+    it('should report missing and extra forms', () => {
+        expect(
+            checkPluralForms({
+                source,
+                keyset: {
+                    item_one: '{{count}} предмет',
+                    item_other: '{{count}} предмета',
+                    item_two: '{{count}} предмета',
+                },
+                language: 'ru',
+            }),
+        ).toEqual([{key: 'item', missing: ['few', 'many'], extra: ['two']}]);
+    });
+
+    it('should accept complete forms and the "_zero" form', () => {
+        expect(
+            checkPluralForms({
+                source,
+                keyset: {item_zero: 'No items', item_other: '{{count}} 件'},
+                language: 'ja',
+            }),
+        ).toEqual([]);
+    });
+
+    it('should skip keys that are not plural in the source', () => {
+        expect(
+            checkPluralForms({
+                source,
+                keyset: {step_one: 'Шаг'},
+                language: 'ru',
+            }),
+        ).toEqual([]);
+    });
+});
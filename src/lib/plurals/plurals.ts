@@ -0,0 +1,96 @@
+import {splitPluralKey} from '../keysets';
+import type {Keyset} from '../keysets/types';
+
+export type PluralFormsMismatch = {
+    // Key without the plural suffix
+    key: string;
+    missing: Intl.LDMLPluralRule[];
+    extra: Intl.LDMLPluralRule[];
+};
+
+/**
+ * Returns CLDR plural categories of the language
+ *
+ * @param language - Language code (e.g., "ru", "pt-BR" or "pt_BR")
+ * @returns Plural categories or undefined for invalid and unsupported language codes
+ */
+export const getPluralCategories = (language: string) => {
+    try {
+        // Intl.PluralRules silently falls back to the default locale for unsupported ones
+        const [locale] = Intl.PluralRules.supportedLocalesOf(
+            language.replace(/_/g, '-'),
+        );
+
+        return locale
+            ? new Intl.PluralRules(locale).resolvedOptions().pluralCategories
+            : undefined;
+    } catch (error) {
+        return undefined;
+    }
+};
+
+const getPluralForms = (keyset: Keyset) => {
+    const forms = new Map<string, Intl.LDMLPluralRule[]>();
+
+    for (const key of Object.keys(keyset)) {
+        const pluralKey = splitPluralKey(key);
+
+        if (pluralKey) {
+            forms.set(pluralKey.base, [
+                ...(forms.get(pluralKey.base) ?? []),
+                pluralKey.category,
+            ]);
+        }
+    }
+
+    return forms;
+};
+
+/**
+ * Checks that i18next plural keys have exactly the forms of the language
+ *
+ * @param params - Keysets and language
+ * @param params.source - Keyset of the source language, its keys with the "_other" form are plural
+ * @param params.keyset - Checked keyset, may be the source one
+ * @param params.language - Language of the checked keyset
+ * @returns Plural keys with missing or extra forms
+ */
+export const checkPluralForms = ({
+    source,
+    keyset,
+    language,
+}: {
+    source: Keyset;
+    keyset: Keyset;
+    language: string;
+}): PluralFormsMismatch[] => {
+    const categories = getPluralCategories(language);
+
+    if (!categories) {
+        return [];
+    }
+
+    const sourceForms = getPluralForms(source);
+    const mismatches: PluralFormsMismatch[] = [];
+
+    for (const [key, forms] of getPluralForms(keyset)) {
+        // Keys like "step_one" without "step_other" are not plural
+        if (!sourceForms.get(key)?.includes('other')) {
+            continue;
+        }
+
+        const missing = categories.filter(
+            category => !forms.includes(category),
+        );
+        // i18next uses the "_zero" form in any language if it exists
+        const extra = forms.filter(
+            form => form !== 'zero' && !categories.includes(form),
+        );
+
+        if (missing.length || extra.length) {
+            mismatches.push({key, missing, extra});
+        }
+    }
+
+    return mismatches;
+};
@@ -0,0 +1,6 @@
+export {
+    applyRepositoryConfig,
+    getComponentSettings,
+    loadRepositoryConfig,
+    validateRepositoryConfig,
+} from './repository-config';
@@ -0,0 +1,218 @@
+import {
+    applyRepositoryConfig,
+    getComponentSettings,
+    validateRepositoryConfig,
+} from './repository-config';
+
+const fileName = '.weblate-action.yml';
+
+describe('validateRepositoryConfig', () => {
+    it('should accept a valid config', () => {
+        const config = {
+            addons: {
+                prune: true,
+                main_branch: [{name: 'weblate.cleanup.generic'}],
+                pull_request: [
+                    {
+                        name: 'weblate.git.squash',
+                        configuration: {squash: 'language'},
+                    },
+                ],
+            },
+            defaults: {
+                language_regex: '^[a-z]{2}$',
+                merge_style: 'merge',
+                addons: [
+                    {
+                        name: 'weblate.json.customize',
+                        configuration: {indent: 4},
+                    },
+                ],
+            },
+            gating: {
+                approved_percent: 100,
+                max_fuzzy: 0,
+                languages: {fr: {translated_percent: 50, blocking: false}},
+            },
+            overrides: [{match: 'projects/app-a/**', file_format: 'json'}],
+            components: {common: {name: 'Common', source_language: 'ru'}},
+        };
+
+        expect(validateRepositoryConfig(config, fileName)).toEqual(config);
+    });
+
+    it('should return empty config for an empty file', () => {
+        expect(validateRepositoryConfig(null, fileName)).toEqual({});
+    });
+
+    it('should point to the invalid setting', () => {
+        expect(() =>
+            validateRepositoryConfig(
+                {components: {common: {merge_style: 'squash'}}},
+                fileName,
+            ),
+        ).toThrow(
+            "components.common.merge_style: expected one of merge, rebase, merge_without_fast_forward, got 'squash'",
+        );
+    });
+
+    it('should pass file formats unknown to the action through', () => {
+        expect(
+            validateRepositoryConfig(
+                {defaults: {file_format: 'csv'}},
+                fileName,
+            ),
+        ).toEqual({defaults: {file_format: 'csv'}});
+        expect(() =>
+            validateRepositoryConfig({defaults: {file_format: ''}}, fileName),
+        ).toThrow('defaults.file_format: expected a non-empty string');
+    });
+
+    it('should report unknown settings', () => {
+        expect(() =>
+            validateRepositoryConfig(
+                {defaults: {name: 'common', languages: 'en'}, unknown: 1},
+                fileName,
+            ),
+        ).toThrow(
+            [
+                'Invalid config file .weblate-action.yml:',
+                '  - defaults.name: unknown setting',
+                '  - defaults.languages: unknown setting',
+                '  - unknown: unknown setting',
+            ].join('\n'),
+        );
+    });
+
+    it('should validate addons of branch types', () => {
+        expect(() =>
+            validateRepositoryConfig(
+                {
+                    addons: {
+                        main_branch: {name: 'weblate.cleanup.generic'},
+                        feature_branch: [],
+                        prune: 'yes',
+                    },
+                },
+                fileName,
+            ),
+        ).toThrow(
+            [
+                'Invalid config file .weblate-action.yml:',
+                '  - addons.main_branch: expected a list of addons',
+                '  - addons.feature_branch: unknown branch type',
+                '  - addons.prune: expected true or false',
+            ].join('\n'),
+        );
+    });
+
+    it('should validate gating thresholds', () => {
+        expect(() =>
+            validateRepositoryConfig(
+                {
+                    gating: {
+                        approved_percent: 120,
+                        languages: {
+                            fr: {blocking: 'no', max_fuzzy: 2},
+                            de: {min_words: 1},
+                        },
+                    },
+                },
+                fileName,
+            ),
+        ).toThrow(
+            [
+                'Invalid config file .weblate-action.yml:',
+                '  - gating.approved_percent: expected a number from 0 to 100',
+                '  - gating.languages.fr.blocking: expected true or false',
+                '  - gating.languages.de.min_words: unknown setting',
+            ].join('\n'),
+        );
+    });
+
+    it('should validate overrides and addons', () => {
+        expect(() =>
+            validateRepositoryConfig(
+                {
+                    overrides: [
+                        {language_regex: '^(..$'},
+                        {match: 'src/**', addons: [{configuration: 1}]},
+                    ],
+                },
+                fileName,
+            ),
+        ).toThrow(
+            [
+                'Invalid config file .weblate-action.yml:',
+                "  - overrides[0].language_regex: invalid regular expression '^(..$'",
+                '  - overrides[0].match: expected a non-empty string',
+                '  - overrides[1].addons[0].name: expected a non-empty string',
+                '  - overrides[1].addons[0].configuration: expected an object',
+            ].join('\n'),
+        );
+    });
+});
+
+describe('getComponentSettings', () => {
+    const component = {
+        name: 'common',
+        source: 'projects/app-a/i18n/common/en.json',
+        fileMask: 'projects/app-a/i18n/common/*.json',
+    };
+
+    it('should apply defaults, matching overrides and component settings in order', () => {
+        const settings = getComponentSettings(component, {
+            defaults: {
+                merge_style: 'rebase',
+                language_regex: '^..$',
+                addons: [{name: 'weblate.flags.same_edit'}],
+            },
+            overrides: [
+                {match: 'projects/app-a/**', merge_style: 'merge'},
+                {match: 'projects/app-b/**', file_format: 'json'},
+            ],
+            components: {
+                common: {
+                    language_regex: '^.*$',
+                    addons: [{name: 'weblate.git.squash'}],
+                },
+            },
+        });
+
+        expect(settings).toEqual({
+            merge_style: 'merge',
+            language_regex: '^.*$',
+            addons: [
+                {name: 'weblate.flags.same_edit'},
+                {name: 'weblate.git.squash'},
+            ],
+        });
+    });
+
+    it('should return empty settings without config', () => {
+        expect(getComponentSettings(component, {})).toEqual({});
+    });
+});
+
+describe('applyRepositoryConfig', () => {
+    it('should override name and source language of the component', () => {
+        const [component] = applyRepositoryConfig(
+            [
+                {
+                    name: 'common',
+                    source: 'src/i18n-keysets/common/en.json',
+                    fileMask: 'src/i18n-keysets/common/*.json',
+                },
+            ],
+            {components: {common: {name: 'Common', source_language: 'ru'}}},
+            'en',
+        );
+
+        expect(component).toEqual({
+            name: 'Common',
+            source: 'src/i18n-keysets/common/ru.json',
+            fileMask: 'src/i18n-keysets/common/*.json',
+            settings: {name: 'Common', source_language: 'ru'},
+        });
+    });
+});
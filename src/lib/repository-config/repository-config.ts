@@ -0,0 +1,415 @@
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import {minimatch} from 'minimatch';
+import {getLanguageFilePath} from '../../utils';
+import type {ComponentInCode} from '../../utils';
+import type {
+    AddonSettings,
+    ComponentSettings,
+    GatingThresholds,
+    MergeStyle,
+    RepositoryConfig,
+} from './types';
+
+const MERGE_STYLES: MergeStyle[] = [
+    'merge',
+    'rebase',
+    'merge_without_fast_forward',
+];
+
+type Validator = (value: unknown, settingPath: string) => string[];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const validateString: Validator = (value, settingPath) =>
+    typeof value === 'string' && value.length
+        ? []
+        : [`${settingPath}: expected a non-empty string`];
+
+const validateRegex: Validator = (value, settingPath) => {
+    const errors = validateString(value, settingPath);
+
+    if (errors.length) {
+        return errors;
+    }
+
+    try {
+        RegExp(value as string);
+        return [];
+    } catch (error) {
+        return [`${settingPath}: invalid regular expression '${value}'`];
+    }
+};
+
+const validateMergeStyle: Validator = (value, settingPath) =>
+    MERGE_STYLES.includes(value as MergeStyle)
+        ? []
+        : [
+              `${settingPath}: expected one of ${MERGE_STYLES.join(
+                  ', ',
+              )}, got '${value}'`,
+          ];
+
+const validateAddons: Validator = (value, settingPath) => {
+    if (!Array.isArray(value)) {
+        return [`${settingPath}: expected a list of addons`];
+    }
+
+    return value.flatMap((addon: unknown, index) => {
+        const addonPath = `${settingPath}[${index}]`;
+
+        if (!isObject(addon)) {
+            return [`${addonPath}: expected an object with addon name`];
+        }
+
+        return [
+            ...validateString(addon.name, `${addonPath}.name`),
+            ...(addon.configuration === undefined ||
+            isObject(addon.configuration)
+                ? []
+                : [`${addonPath}.configuration: expected an object`]),
+            ...Object.keys(addon)
+                .filter(key => key !== 'name' && key !== 'configuration')
+                .map(key => `${addonPath}.${key}: unknown setting`),
+        ];
+    });
+};
+
+const SETTING_VALIDATORS: Record<keyof ComponentSettings, Validator> = {
+    name: validateString,
+    language_regex: validateRegex,
+    merge_style: validateMergeStyle,
+    // Formats unknown to the action are passed to Weblate as with FILE_FORMAT
+    file_format: validateString,
+    source_language: validateString,
+    addons: validateAddons,
+};
+
+const validateBoolean: Validator = (value, settingPath) =>
+    typeof value === 'boolean'
+        ? []
+        : [`${settingPath}: expected true or false`];
+
+const BRANCH_TYPES = ['main_branch', 'pull_request'];
+
+const validateBranchAddons: Validator = (value, settingPath) => {
+    if (!isObject(value)) {
+        return [
+            `${settingPath}: expected an object with addons of ${BRANCH_TYPES.join(
+                ', ',
+            )}`,
+        ];
+    }
+
+    return Object.entries(value).flatMap(([key, addons]) => {
+        if (key === 'prune') {
+            return validateBoolean(addons, `${settingPath}.${key}`);
+        }
+
+        return BRANCH_TYPES.includes(key)
+            ? validateAddons(addons, `${settingPath}.${key}`)
+            : [`${settingPath}.${key}: unknown branch type`];
+    });
+};
+
+const validatePercent: Validator = (value, settingPath) =>
+    typeof value === 'number' && value >= 0 && value <= 100
+        ? []
+        : [`${settingPath}: expected a number from 0 to 100`];
+
+const validateCount: Validator = (value, settingPath) =>
+    Number.isInteger(value) && (value as number) >= 0
+        ? []
+        : [`${settingPath}: expected a non-negative integer`];
+
+const THRESHOLD_VALIDATORS: Record<keyof GatingThresholds, Validator> = {
+    translated_percent: validatePercent,
+    approved_percent: validatePercent,
+    max_fuzzy: validateCount,
+    max_failing: validateCount,
+    blocking: validateBoolean,
+};
+
+const validateThresholds = (value: unknown, settingPath: string) => {
+    if (!isObject(value)) {
+        return [`${settingPath}: expected an object with thresholds`];
+    }
+
+    return Object.entries(value).flatMap(([key, thresholdValue]) =>
+        key in THRESHOLD_VALIDATORS
+            ? THRESHOLD_VALIDATORS[key as keyof GatingThresholds](
+                  thresholdValue,
+                  `${settingPath}.${key}`,
+              )
+            : [`${settingPath}.${key}: unknown setting`],
+    );
+};
+
+const validateGating: Validator = (value, settingPath) => {
+    if (!isObject(value)) {
+        return [`${settingPath}: expected an object with thresholds`];
+    }
+
+    const {languages, ...thresholds} = value;
+    const errors = validateThresholds(thresholds, settingPath);
+
+    if (languages === undefined) {
+        return errors;
+    }
+
+    if (!isObject(languages)) {
+        return [
+            ...errors,
+            `${settingPath}.languages: expected an object with thresholds by language`,
+        ];
+    }
+
+    return [
+        ...errors,
+        ...Object.entries(languages).flatMap(([language, languageThresholds]) =>
+            validateThresholds(
+                languageThresholds,
+                `${settingPath}.languages.${language}`,
+            ),
+        ),
+    ];
+};
+
+const validateSettings = (
+    value: unknown,
+    settingPath: string,
+    {allowedKeys = [], allowName = false} = {} as {
+        allowedKeys?: string[];
+        allowName?: boolean;
+    },
+) => {
+    if (!isObject(value)) {
+        return [`${settingPath}: expected an object with settings`];
+    }
+
+    return Object.entries(value).flatMap(([key, settingValue]) => {
+        if (allowedKeys.includes(key)) {
+            return [];
+        }
+
+        if (!(key in SETTING_VALIDATORS) || (key === 'name' && !allowName)) {
+            return [`${settingPath}.${key}: unknown setting`];
+        }
+
+        return SETTING_VALIDATORS[key as keyof ComponentSettings](
+            settingValue,
+            `${settingPath}.${key}`,
+        );
+    });
+};
+
+/**
+ * Validates the parsed repository config
+ *
+ * @param value - Parsed content of the config file
+ * @param fileName - Config file name used in error messages
+ * @returns Validated config
+ */
+export const validateRepositoryConfig = (
+    value: unknown,
+    fileName: string,
+): RepositoryConfig => {
+    // Empty file
+    if (value === undefined || value === null) {
+        return {};
+    }
+
+    if (!isObject(value)) {
+        throw Error(`${fileName}: expected an object with settings`);
+    }
+
+    const errors: string[] = [];
+
+    for (const [key, sectionValue] of Object.entries(value)) {
+        switch (key) {
+            case 'addons':
+                errors.push(...validateBranchAddons(sectionValue, key));
+                break;
+            case 'gating':
+                errors.push(...validateGating(sectionValue, key));
+                break;
+            case 'defaults':
+                errors.push(...validateSettings(sectionValue, key));
+                break;
+            case 'components':
+                if (isObject(sectionValue)) {
+                    for (const [name, settings] of Object.entries(
+                        sectionValue,
+                    )) {
+                        errors.push(
+                            ...validateSettings(settings, `${key}.${name}`, {
+                                allowName: true,
+                            }),
+                        );
+                    }
+                } else {
+                    errors.push(`${key}: expected an object with components`);
+                }
+                break;
+            case 'overrides':
+                if (Array.isArray(sectionValue)) {
+                    for (const [index, override] of sectionValue.entries()) {
+                        const overridePath = `${key}[${index}]`;
+
+                        errors.push(
+                            ...validateSettings(override, overridePath, {
+                                allowedKeys: ['match'],
+                            }),
+                        );
+
+                        if (isObject(override)) {
+                            errors.push(
+                                ...validateString(
+                                    override.match,
+                                    `${overridePath}.match`,
+                                ),
+                            );
+                        }
+                    }
+                } else {
+                    errors.push(`${key}: expected a list of overrides`);
+                }
+                break;
+            default:
+                errors.push(`${key}: unknown setting`);
+        }
+    }
+
+    if (errors.length) {
+        throw Error(
+            [
+                `Invalid config file ${fileName}:`,
+                ...errors.map(error => `  - ${error}`),
+            ].join('\n'),
+        );
+    }
+
+    return value as RepositoryConfig;
+};
+
+/**
+ * Parses and validates content of the config file
+ *
+ * @param content - Content of the config file
+ * @param filePath - Config file path used in error messages
+ * @returns Validated config
+ */
+const parseRepositoryConfig = (
+    content: string,
+    filePath: string,
+): RepositoryConfig => {
+    let parsedContent: unknown;
+
+    try {
+        parsedContent = yaml.load(content);
+    } catch (error) {
+        throw Error(
+            `Failed to parse config file ${filePath}: ${
+                (error as Error).message
+            }`,
+        );
+    }
+
+    return validateRepositoryConfig(parsedContent, filePath);
+};
+
+/**
+ * Reads the config file from the repository
+ *
+ * @param filePath - Path to the config file (e.g., ".weblate-action.yml")
+ * @returns Validated config or empty config if the file doesn't exist
+ */
+export const loadRepositoryConfig = (filePath: string): RepositoryConfig => {
+    const resolvedPath = path.resolve(process.cwd(), filePath);
+
+    if (!fs.existsSync(resolvedPath)) {
+        return {};
+    }
+
+    return parseRepositoryConfig(
+        fs.readFileSync(resolvedPath, 'utf-8'),
+        filePath,
+    );
+};
+
+const mergeSettings = (...settingsList: ComponentSettings[]) =>
+    settingsList.reduce<ComponentSettings>((result, settings) => {
+        const {addons, ...otherSettings} = settings;
+        const mergedAddons: AddonSettings[] = [
+            ...(result.addons ?? []),
+            ...(addons ?? []),
+        ];
+
+        return {
+            ...result,
+            ...otherSettings,
+            ...(mergedAddons.length ? {addons: mergedAddons} : {}),
+        };
+    }, {});
+
+/**
+ * Collects settings for the component: defaults, then matching overrides in order,
+ * then settings of the component by name
+ *
+ * @param component - Component resolved from the file structure
+ * @param config - Repository config
+ * @returns Merged settings of the component
+ */
+export const getComponentSettings = (
+    component: ComponentInCode,
+    config: RepositoryConfig,
+): ComponentSettings => {
+    const overrides = (config.overrides ?? [])
+        .filter(({match}) => minimatch(component.source, match))
+        .map(({match: _match, ...settings}) => settings);
+
+    return mergeSettings(
+        config.defaults ?? {},
+        ...overrides,
+        config.components?.[component.name] ?? {},
+    );
+};
+
+/**
+ * Applies repository config to the components resolved from the file structure
+ *
+ * @param components - Components resolved from the file structure
+ * @param config - Repository config
+ * @param mainLanguage - Main language code (e.g., "en")
+ * @returns Components with settings and overridden names
+ */
+export const applyRepositoryConfig = (
+    components: ComponentInCode[],
+    config: RepositoryConfig,
+    mainLanguage: string,
+): ComponentInCode[] =>
+    components.map(component => {
+        const settings = getComponentSettings(component, config);
+
+        if (!Object.keys(settings).length) {
+            return component;
+        }
+
+        const source =
+            settings.source_language &&
+            settings.source_language !== mainLanguage
+                ? getLanguageFilePath(
+                      component.fileMask,
+                      settings.source_language,
+                  )
+                : component.source;
+
+        return {
+            ...component,
+            name: settings.name ?? component.name,
+            source,
+            settings,
+        };
+    });
@@ -0,0 +1,58 @@
+export type AddonSettings = {
+    name: string;
+    configuration?: Record<string, unknown>;
+};
+
+export type MergeStyle = 'merge' | 'rebase' | 'merge_without_fast_forward';
+
+export type ComponentSettings = {
+    // Overrides the component name resolved from the file structure
+    name?: string;
+    language_regex?: string;
+    merge_style?: MergeStyle;
+    file_format?: string;
+    source_language?: string;
+    // Installed in addition to the default addons of the branch
+    addons?: AddonSettings[];
+};
+
+export type ComponentSettingsOverride = Omit<ComponentSettings, 'name'> & {
+    // Glob pattern for the source file path of the component
+    match: string;
+};
+
+// Replace the built-in addons (including addons of the file format) of each branch type
+export type BranchAddons = {
+    main_branch?: AddonSettings[];
+    pull_request?: AddonSettings[];
+    // Removes installed addons missing in the desired set, including the ones installed by hand
+    prune?: boolean;
+};
+
+// Requirements to translations of a pull request
+export type GatingThresholds = {
+    // Minimum percent of translated strings
+    translated_percent?: number;
+    // Minimum percent of approved strings for projects with reviews
+    approved_percent?: number;
+    // Maximum number of fuzzy strings
+    max_fuzzy?: number;
+    // Maximum number of strings failing Weblate checks
+    max_failing?: number;
+    // Translations violating the thresholds are reported but don't fail the pull request
+    blocking?: boolean;
+};
+
+export type GatingPolicy = GatingThresholds & {
+    // Thresholds by language code, merged with the common ones
+    languages?: Record<string, GatingThresholds>;
+};
+
+export type RepositoryConfig = {
+    addons?: BranchAddons;
+    gating?: GatingPolicy;
+    defaults?: Omit<ComponentSettings, 'name'>;
+    overrides?: ComponentSettingsOverride[];
+    // Settings by the component name resolved from the file structure
+    components?: Record<string, ComponentSettings>;
+};
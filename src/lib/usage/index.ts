@@ -0,0 +1 @@
+export {findKeysInCode, getKeyPatterns, getKeysUsageReport} from './usage';
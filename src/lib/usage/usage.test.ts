@@ -0,0 +1,88 @@
+import {findKeysInCode, getKeyPatterns, getKeysUsageReport} from './usage';
+
+describe('findKeysInCode', () => {
+    it('should find keys of default translation calls', () => {
+        const content = [
+            "const title = t('title');",
+            'i18n.t("common:button.save", {count});',
+            '<Trans i18nKey="description" />',
+            "<Trans i18nKey={'hint'}>text</Trans>",
+            'format(`${prefix}.dynamic`);',
+        ].join('\n');
+
+        expect(
+            findKeysInCode(content, 'src/app.tsx', getKeyPatterns([])),
+        ).toEqual([
+            {key: 'title', file: 'src/app.tsx', line: 1},
+            {key: 'common:button.save', file: 'src/app.tsx', line: 2},
+            {key: 'description', file: 'src/app.tsx', line: 3},
+            {key: 'hint', file: 'src/app.tsx', line: 4},
+        ]);
+    });
+
+    it('should use custom patterns', () => {
+        expect(
+            findKeysInCode(
+                "i18n('keyset', 'key')",
+                'src/app.ts',
+                getKeyPatterns(["i18n\\('\\w+', '([^']+)'\\)"]),
+            ),
+        ).toEqual([{key: 'key', file: 'src/app.ts', line: 1}]);
+    });
+});
+
+describe('getKeyPatterns', () => {
+    it('should validate custom patterns', () => {
+        expect(() => getKeyPatterns(['i18n\\((\\w+'])).toThrow(
+            "Invalid key pattern 'i18n\\((\\w+'",
+        );
+        expect(() => getKeyPatterns(['i18n'])).toThrow(
+            "Key pattern 'i18n' has no capture group for the key",
+        );
+    });
+});
+
+describe('getKeysUsageReport', () => {
+    it('should report unused and undefined keys', () => {
+        const usages = [
+            {key: 'title', file: 'src/a.ts', line: 1},
+            {key: 'item', file: 'src/a.ts', line: 2},
+            {key: 'common:save', file: 'src/a.ts', line: 3},
+            {key: 'missing', file: 'src/b.ts', line: 4},
+            {key: 'common:cancel', file: 'src/b.ts', line: 5},
+        ];
+
+        expect(
+            getKeysUsageReport(
+                {
+                    page: ['title', 'item_one', 'item_other', 'dead'],
+                    common: ['save', 'close'],
+                },
+                usages,
+            ),
+        ).toEqual({
+            unused: {page: ['dead'], common: ['close']},
+            undefined: [usages[3], usages[4]],
+        });
+    });
+
+    it('should keep components with the same name in different nested categories apart', () => {
+        const usages = [
+            {key: 'common:save', file: 'src/a.ts', line: 1},
+            {key: 'title', file: 'src/a.ts', line: 2},
+        ];
+
+        expect(
+            getKeysUsageReport(
+                {
+                    'app-a/common': ['save', 'title'],
+                    'app-b/common': ['cancel', 'save'],
+                },
+                usages,
+            ),
+        ).toEqual({
+            unused: {'app-b/common': ['cancel']},
+            undefined: [],
+        });
+    });
+});
@@ -0,0 +1,160 @@
+import {splitPluralKey} from '../keysets';
+
+export type KeyUsage = {
+    key: string;
+    file: string;
+    // 1-based line of the usage
+    line: number;
+};
+
+export type KeysUsageReport = {
+    // Keys of the source language never used in code by component paths
+    unused: Record<string, string[]>;
+    // Keys used in code but missing in the source language
+    undefined: KeyUsage[];
+};
+
+// The first capture group of each pattern is the key
+export const DEFAULT_KEY_PATTERNS = [
+    // t('key'), i18n.t('key'), $t('key')
+    /\bt\(\s*['"`]([^'"`$]+)['"`]/g,
+    // <Trans i18nKey="key"> and <Trans i18nKey={'key'}>
+    /<Trans\b[^>]*?\bi18nKey=\{?\s*['"`]([^'"`$]+)['"`]/g,
+];
+
+/**
+ * Compiles user patterns of translation calls
+ *
+ * @param patterns - Regular expressions with the key in the first capture group
+ * @returns Default patterns followed by user patterns
+ */
+export const getKeyPatterns = (patterns: string[]) =>
+    DEFAULT_KEY_PATTERNS.concat(
+        patterns.map(pattern => {
+            let regex: RegExp;
+
+            try {
+                regex = RegExp(pattern, 'g');
+            } catch (error) {
+                throw Error(`Invalid key pattern '${pattern}': ${error}`);
+            }
+
+            // Counts capture groups of the pattern
+            if (RegExp(`${pattern}|`).exec('')?.length === 1) {
+                throw Error(
+                    `Key pattern '${pattern}' has no capture group for the key`,
+                );
+            }
+
+            return regex;
+        }),
+    );
+
+/**
+ * Finds translation keys used in the source file
+ *
+ * @param content - Content of the source file
+ * @param file - Path of the source file
+ * @param patterns - Result of getKeyPatterns
+ * @returns Used keys with their lines
+ */
+export const findKeysInCode = (
+    content: string,
+    file: string,
+    patterns: RegExp[],
+): KeyUsage[] =>
+    patterns
+        .flatMap(pattern =>
+            Array.from(content.matchAll(pattern)).map(match => ({
+                key: match[1],
+                file,
+                line: content.slice(0, match.index).split('\n').length,
+            })),
+        )
+        .filter(({key}) => Boolean(key))
+        .sort((a, b) => a.line - b.line);
+
+// i18next resolves t('item', {count}) to "item_one", "item_other" etc.
+const getLookupKeys = (keys: string[]) =>
+    new Set(keys.flatMap(key => [key, splitPluralKey(key)?.base ?? key]));
+
+// Components of nested categories are keyed by paths like "app-a/common", namespaces are their names
+const getNamespace = (component: string) => component.split('/').pop() ?? '';
+
+/**
+ * Cross-references keys used in code with keys of the components
+ *
+ * @param keysByComponent - Keys of the source language by component paths (e.g., "app-a/common")
+ * @param usages - Result of findKeysInCode for all source files
+ * @returns Unused and undefined keys
+ */
+export const getKeysUsageReport = (
+    keysByComponent: Record<string, string[]>,
+    usages: KeyUsage[],
+): KeysUsageReport => {
+    const allKeys = getLookupKeys(Object.values(keysByComponent).flat());
+    // Components with the same name in different nested categories share the namespace
+    const keysInNamespaces = new Map<string, Set<string>>();
+
+    for (const [component, keys] of Object.entries(keysByComponent)) {
+        const namespace = getNamespace(component);
+
+        keysInNamespaces.set(
+            namespace,
+            getLookupKeys([
+                ...(keysInNamespaces.get(namespace) ?? []),
+                ...keys,
+            ]),
+        );
+    }
+
+    // Keys like "common:title" are looked up in the component "common"
+    const resolveUsage = ({key}: KeyUsage) => {
+        const [namespace, ...rest] = key.split(':');
+
+        return rest.length && keysInNamespaces.has(namespace)
+            ? {namespace, key: rest.join(':')}
+            : {namespace: undefined, key};
+    };
+
+    const usedKeys = new Set<string>();
+    const usedKeysInNamespaces = new Map<string, Set<string>>();
+    const undefinedUsages: KeyUsage[] = [];
+
+    for (const usage of usages) {
+        const {namespace, key} = resolveUsage(usage);
+        const definedKeys = namespace
+            ? keysInNamespaces.get(namespace)
+            : allKeys;
+
+        if (namespace) {
+            const namespaceKeys =
+                usedKeysInNamespaces.get(namespace) ?? new Set();
+            usedKeysInNamespaces.set(namespace, namespaceKeys.add(key));
+        } else {
+            usedKeys.add(key);
+        }
+
+        if (!definedKeys?.has(key)) {
+            undefinedUsages.push(usage);
+        }
+    }
+
+    const unused: Record<string, string[]> = {};
+
+    for (const [component, keys] of Object.entries(keysByComponent)) {
+        const isUsed = (key: string) =>
+            usedKeys.has(key) ||
+            usedKeysInNamespaces.get(getNamespace(component))?.has(key);
+
+        const unusedKeys = keys.filter(
+            key => !isUsed(key) && !isUsed(splitPluralKey(key)?.base ?? key),
+        );
+
+        if (unusedKeys.length) {
+            unused[component] = unusedKeys;
+        }
+    }
+
+    return {unused, undefined: undefinedUsages};
+};
@@ -0,0 +1,69 @@
+import {createLimiter, mapBatch} from './concurrency';
+import {sleep} from '../../utils';
+
+describe('createLimiter', () => {
+    it('should run at most the given number of tasks at once', async () => {
+        const limit = createLimiter(2);
+        let running = 0;
+        let maxRunning = 0;
+
+        const results = await Promise.all(
+            [1, 2, 3, 4, 5].map(value =>
+                limit(async () => {
+                    running++;
+                    maxRunning = Math.max(maxRunning, running);
+                    await sleep(5);
+                    running--;
+                    return value * 2;
+                }),
+            ),
+        );
+
+        expect(results).toEqual([2, 4, 6, 8, 10]);
+        expect(maxRunning).toBe(2);
+    });
+
+    it('should free the slot of a failed task', async () => {
+        const limit = createLimiter(1);
+
+        await expect(
+            limit(() => Promise.reject(Error('failed'))),
+        ).rejects.toThrow('failed');
+        await expect(limit(async () => 'ok')).resolves.toBe('ok');
+    });
+});
+
+describe('mapBatch', () => {
+    it('should return results in order', async () => {
+        await expect(
+            mapBatch('create', [{name: 'a'}, {name: 'b'}], async ({name}) =>
+                name.toUpperCase(),
+            ),
+        ).resolves.toEqual(['A', 'B']);
+    });
+
+    it('should list every failed component', async () => {
+        await expect(
+            mapBatch(
+                'create',
+                [
+                    {name: 'a', categorySlug: 'main'},
+                    {name: 'b', group: 'app'},
+                    {name: 'c'},
+                ],
+                async ({name}) => {
+                    if (name !== 'b') {
+                        throw Error(`${name} is broken`);
+                    }
+                    return name;
+                },
+            ),
+        ).rejects.toThrow(
+            [
+                'Failed to create 2 of 3 components:',
+                '  - main/a: a is broken',
+                '  - c: c is broken',
+            ].join('\n'),
+        );
+    });
+});
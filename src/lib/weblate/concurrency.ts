@@ -0,0 +1,89 @@
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * Creates a limiter that runs at most the given number of tasks at once,
+ * other tasks wait in the queue in order
+ *
+ * @param maxConcurrency - Maximum number of running tasks
+ * @returns Function that runs the task when a slot is free
+ */
+export const createLimiter = (maxConcurrency: number): Limiter => {
+    const queue: Array<() => void> = [];
+    let running = 0;
+
+    const acquire = () =>
+        new Promise<void>(resolve => {
+            if (running < maxConcurrency) {
+                running++;
+                resolve();
+            } else {
+                queue.push(resolve);
+            }
+        });
+
+    // The slot goes to the next task in the queue
+    const release = () => {
+        const nextTask = queue.shift();
+
+        if (nextTask) {
+            nextTask();
+        } else {
+            running--;
+        }
+    };
+
+    return async task => {
+        await acquire();
+
+        try {
+            return await task();
+        } finally {
+            release();
+        }
+    };
+};
+
+type BatchItem = {name: string; categorySlug?: string; group?: string};
+
+export const getItemPath = ({name, categorySlug, group}: BatchItem) => {
+    const parent = categorySlug ?? group;
+
+    return parent ? `${parent}/${name}` : name;
+};
+
+/**
+ * Runs the operation for all components and waits for all of them
+ *
+ * @param action - Name of the operation for the error message (e.g., "create")
+ * @param items - Components
+ * @param operation - Operation for one component
+ * @returns Results in the order of components
+ * @throws Error listing every failed component if some operations fail
+ */
+export const mapBatch = async <T extends BatchItem, R>(
+    action: string,
+    items: T[],
+    operation: (item: T) => Promise<R>,
+): Promise<R[]> => {
+    const results = await Promise.allSettled(items.map(operation));
+    const failures = results.flatMap((result, index) =>
+        result.status === 'rejected'
+            ? [
+                  `  - ${getItemPath(items[index])}: ${
+                      (result.reason as Error)?.message ?? result.reason
+                  }`,
+              ]
+            : [],
+    );
+
+    if (failures.length) {
+        throw Error(
+            [
+                `Failed to ${action} ${failures.length} of ${items.length} components:`,
+                ...failures,
+            ].join('\n'),
+        );
+    }
+
+    return results.map(result => (result as PromiseFulfilledResult<R>).value);
+};
@@ -0,0 +1,126 @@
+import {AxiosError} from 'axios';
+import type {AxiosResponse, InternalAxiosRequestConfig} from 'axios';
+import {
+    WeblateError,
+    WeblateNotFoundError,
+    WeblateServerError,
+    WeblateTimeoutError,
+    WeblateValidationError,
+    getFieldErrors,
+    toWeblateError,
+} from './errors';
+
+const createAxiosError = ({
+    method = 'get',
+    url,
+    data,
+    status,
+    body,
+    code,
+}: {
+    method?: string;
+    url: string;
+    data?: unknown;
+    status?: number;
+    body?: unknown;
+    code?: string;
+}) => {
+    const config = {
+        method,
+        url,
+        data: data === undefined ? undefined : JSON.stringify(data),
+        headers: {},
+    } as InternalAxiosRequestConfig;
+    const response = status
+        ? ({
+              data: body,
+              status,
+              statusText: '',
+              headers: {},
+              config,
+          } as unknown as AxiosResponse)
+        : undefined;
+
+    return new AxiosError(
+        status ? `Request failed with status code ${status}` : 'timeout',
+        code,
+        config,
+        undefined,
+        response,
+    );
+};
+
+describe('getFieldErrors', () => {
+    it('should parse plain and standardized errors', () => {
+        expect(
+            getFieldErrors({slug: ['Already exists.'], detail: 'Invalid'}),
+        ).toEqual({slug: ['Already exists.'], detail: ['Invalid']});
+        expect(
+            getFieldErrors({
+                type: 'validation_error',
+                errors: [
+                    {attr: 'filemask', detail: 'No matches.'},
+                    {attr: null, detail: 'Invalid request.'},
+                ],
+            }),
+        ).toEqual({filemask: ['No matches.'], detail: ['Invalid request.']});
+    });
+});
+
+describe('toWeblateError', () => {
+    it('should create validation errors with field errors and slug', () => {
+        const error = toWeblateError(
+            createAxiosError({
+                method: 'post',
+                url: '/api/projects/project/components/',
+                data: {name: 'common', slug: 'common'},
+                status: 400,
+                body: {filemask: ['The file mask did not match any files.']},
+            }),
+        );
+
+        expect(error).toBeInstanceOf(WeblateValidationError);
+        expect(error).toMatchObject({
+            method: 'POST',
+            endpoint: '/api/projects/project/components/',
+            status: 400,
+            slug: 'common',
+            fieldErrors: {filemask: ['The file mask did not match any files.']},
+            message:
+                "Weblate request POST /api/projects/project/components/ for 'common' failed with status 400: filemask: The file mask did not match any files.",
+        });
+    });
+
+    it('should extract the component slug from the endpoint', () => {
+        const error = toWeblateError(
+            createAxiosError({
+                url: '/api/components/project/main%252Fcommon/repository/',
+                status: 404,
+                body: {detail: 'Not found.'},
+            }),
+        );
+
+        expect(error).toBeInstanceOf(WeblateNotFoundError);
+        expect(error).toMatchObject({slug: 'main/common'});
+    });
+
+    it('should classify server errors and timeouts', () => {
+        expect(
+            toWeblateError(createAxiosError({url: '/api/', status: 500})),
+        ).toBeInstanceOf(WeblateServerError);
+        expect(
+            toWeblateError(
+                createAxiosError({url: '/api/', code: 'ECONNABORTED'}),
+            ),
+        ).toBeInstanceOf(WeblateTimeoutError);
+        expect(
+            toWeblateError(createAxiosError({url: '/api/', status: 429})),
+        ).toBeInstanceOf(WeblateError);
+    });
+
+    it('should keep other errors', () => {
+        const error = Error('other');
+
+        expect(toWeblateError(error)).toBe(error);
+    });
+});
@@ -0,0 +1,184 @@
+import {isAxiosError} from 'axios';
+
+export type WeblateErrorDetails = {
+    method: string;
+    // Path of the API request, e.g. "/api/components/project/main%252Fcommon/"
+    endpoint: string;
+    status?: number;
+    // Slug of the component (with categories) or id of the category of the request
+    slug?: string;
+    body?: unknown;
+};
+
+export class WeblateError extends Error {
+    method: string;
+    endpoint: string;
+    status?: number;
+    slug?: string;
+    body?: unknown;
+
+    constructor(message: string, details: WeblateErrorDetails) {
+        super(message);
+        this.name = new.target.name;
+        this.method = details.method;
+        this.endpoint = details.endpoint;
+        this.status = details.status;
+        this.slug = details.slug;
+        this.body = details.body;
+    }
+}
+
+export class WeblateNotFoundError extends WeblateError {}
+
+export class WeblateValidationError extends WeblateError {
+    // Error messages by field names, "detail" for errors of the whole request
+    fieldErrors: Record<string, string[]>;
+
+    constructor(
+        message: string,
+        details: WeblateErrorDetails,
+        fieldErrors: Record<string, string[]>,
+    ) {
+        super(message, details);
+        this.fieldErrors = fieldErrors;
+    }
+}
+
+export class WeblatePermissionError extends WeblateError {}
+
+export class WeblateConflictError extends WeblateError {}
+
+export class WeblateServerError extends WeblateError {}
+
+export class WeblateTimeoutError extends WeblateError {}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Extracts error messages from the response body
+ * Supports both plain DRF errors ({"slug": ["..."]}) and standardized errors
+ * of newer Weblate versions ({"errors": [{"attr": "slug", "detail": "..."}]})
+ *
+ * @param body - Response body
+ * @returns Error messages by field names
+ */
+export const getFieldErrors = (body: unknown) => {
+    const fieldErrors: Record<string, string[]> = {};
+    const add = (field: string, message: unknown) => {
+        fieldErrors[field] = [...(fieldErrors[field] ?? []), String(message)];
+    };
+
+    if (isObject(body) && Array.isArray(body.errors)) {
+        for (const error of body.errors) {
+            if (isObject(error)) {
+                add(String(error.attr ?? 'detail'), error.detail);
+            }
+        }
+    } else if (isObject(body)) {
+        for (const [field, messages] of Object.entries(body)) {
+            for (const message of Array.isArray(messages)
+                ? messages
+                : [messages]) {
+                add(
+                    field,
+                    isObject(message) ? JSON.stringify(message) : message,
+                );
+            }
+        }
+    }
+
+    return fieldErrors;
+};
+
+// Index of the slug in the path after the resource type, e.g. /api/components/<project>/<slug>/
+const SLUG_INDEXES: Record<string, number> = {
+    components: 1,
+    translations: 1,
+    categories: 0,
+    addons: 0,
+};
+
+// "/api/components/project/main%252Fcommon/addons/" -> "main/common"
+const getSlugFromEndpoint = (endpoint: string, requestBody: unknown) => {
+    const [type, ...parts] = endpoint
+        .split('?')[0]
+        .replace(/^.*\/api\//, '')
+        .split('/');
+    const slugPart =
+        type in SLUG_INDEXES ? parts[SLUG_INDEXES[type]] : undefined;
+
+    if (slugPart) {
+        return decodeURIComponent(decodeURIComponent(slugPart));
+    }
+
+    // Slug of the created component or category
+    return isObject(requestBody) && typeof requestBody.slug === 'string'
+        ? requestBody.slug
+        : undefined;
+};
+
+const parseRequestBody = (data: unknown) => {
+    try {
+        return typeof data === 'string' ? JSON.parse(data) : data;
+    } catch (error) {
+        return undefined;
+    }
+};
+
+/**
+ * Converts errors of Weblate requests into typed errors
+ *
+ * @param error - Error of the request
+ * @returns Typed error or the same error if it isn't an Axios error
+ */
+export const toWeblateError = (error: unknown) => {
+    if (!isAxiosError(error) || !error.config) {
+        return error;
+    }
+
+    const {config, response} = error;
+    const endpoint = config.url ?? '';
+    const details: WeblateErrorDetails = {
+        method: (config.method ?? 'get').toUpperCase(),
+        endpoint,
+        status: response?.status,
+        slug: getSlugFromEndpoint(endpoint, parseRequestBody(config.data)),
+        body: response?.data,
+    };
+    const fieldErrors = getFieldErrors(response?.data);
+    const reason = Object.entries(fieldErrors)
+        .map(([field, messages]) => `${field}: ${messages.join(' ')}`)
+        .join('; ');
+    const message = [
+        `Weblate request ${details.method} ${endpoint}`,
+        details.slug ? ` for '${details.slug}'` : '',
+        ` failed${response ? ` with status ${response.status}` : ''}`,
+        `: ${reason || error.message}`,
+    ].join('');
+
+    if (!response) {
+        return error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT'
+            ? new WeblateTimeoutError(message, details)
+            : new WeblateError(message, details);
+    }
+
+    switch (response.status) {
+        case 400:
+            return new WeblateValidationError(message, details, fieldErrors);
+        case 401:
+        case 403:
+            return new WeblatePermissionError(message, details);
+        case 404:
+            return new WeblateNotFoundError(message, details);
+        case 408:
+        case 504:
+            return new WeblateTimeoutError(message, details);
+        case 409:
+            return new WeblateConflictError(message, details);
+        default:
+            return response.status >= 500
+                ? new WeblateServerError(message, details)
+                : new WeblateError(message, details);
+    }
+};
@@ -1 +1,10 @@
 export {Weblate} from './weblate';
+export {
+    WeblateConflictError,
+    WeblateError,
+    WeblateNotFoundError,
+    WeblatePermissionError,
+    WeblateServerError,
+    WeblateTimeoutError,
+    WeblateValidationError,
+} from './errors';
@@ -60,6 +60,13 @@ const normalizeData = (value: Json): Json => {
     return value;
 };
 
+// ?category=1&page=2 -> 2
+const getPageNumber = (query: string) => {
+    const match = query.match(/[?&]page=(\d+)/);
+
+    return match ? parseInt(match[1], 10) : undefined;
+};
+
 export const normalizeResponse = (response: AxiosResponse): AxiosResponse => {
     const normalizedResponse = normalizeData(response.data as Json);
 
@@ -72,10 +79,8 @@ export const normalizeResponse = (response: AxiosResponse): AxiosResponse => {
             'next' in normalizedResponse &&
             typeof normalizedResponse['next'] === 'string'
         ) {
-            // ?page=2 -> 2
-            normalizedResponse['next'] = parseInt(
-                normalizedResponse['next'].split('=')[1],
-                10,
+            normalizedResponse['next'] = getPageNumber(
+                normalizedResponse['next'],
             );
         }
 
@@ -83,10 +88,8 @@ export const normalizeResponse = (response: AxiosResponse): AxiosResponse => {
             'previous' in normalizedResponse &&
             typeof normalizedResponse['previous'] === 'string'
         ) {
-            // ?page=2 -> 2
-            normalizedResponse['previous'] = parseInt(
-                normalizedResponse['previous'].split('=')[1],
-                10,
+            normalizedResponse['previous'] = getPageNumber(
+                normalizedResponse['previous'],
             );
         }
     }
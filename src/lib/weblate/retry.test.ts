@@ -0,0 +1,153 @@
+import axios, {AxiosError} from 'axios';
+import type {AxiosResponse, InternalAxiosRequestConfig} from 'axios';
+import {getRetryDelay, parseRetryAfter, setupRetry} from './retry';
+
+const options = {maxRetries: 2, baseDelay: 0, maxDelay: 0};
+
+// Responds with the statuses in order, the last one is repeated
+const createClient = (statuses: number[], headers = {}) => {
+    const requests: string[] = [];
+
+    const client = axios.create({
+        adapter: async (config: InternalAxiosRequestConfig) => {
+            const status =
+                statuses[Math.min(requests.length, statuses.length - 1)];
+            requests.push(`${config.method} ${config.url}`);
+            // AxiosResponse is extended with Promise methods in weblate.ts
+            const response = {
+                data: {},
+                status,
+                statusText: '',
+                headers,
+                config,
+            } as unknown as AxiosResponse;
+
+            if (status >= 400) {
+                throw new AxiosError(
+                    `Request failed with status code ${status}`,
+                    undefined,
+                    config,
+                    undefined,
+                    response,
+                );
+            }
+
+            return response;
+        },
+    });
+
+    return {client, requests};
+};
+
+describe('setupRetry', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should retry idempotent requests until success', async () => {
+        const {client, requests} = createClient([502, 429, 200]);
+        setupRetry(client, options);
+
+        await expect(client.get('/api/components/')).resolves.toMatchObject({
+            status: 200,
+        });
+        expect(requests).toHaveLength(3);
+    });
+
+    it('should stop after the maximum number of retries', async () => {
+        const {client, requests} = createClient([503]);
+        setupRetry(client, options);
+
+        await expect(client.get('/api/components/')).rejects.toThrow(
+            'status code 503',
+        );
+        expect(requests).toHaveLength(3);
+    });
+
+    it('should retry POST requests only if they are marked', async () => {
+        const {client, requests} = createClient([502, 200]);
+        setupRetry(client, options);
+
+        await expect(client.post('/api/categories/', {})).rejects.toThrow(
+            'status code 502',
+        );
+        await expect(
+            client.post('/repository/', {operation: 'pull'}, {retry: true}),
+        ).resolves.toMatchObject({status: 200});
+        expect(requests).toEqual([
+            'post /api/categories/',
+            'post /repository/',
+        ]);
+    });
+
+    it('should treat 404 of a retried DELETE as success', async () => {
+        const {client, requests} = createClient([502, 404]);
+        setupRetry(client, options);
+
+        await expect(
+            client.delete('/api/categories/1/'),
+        ).resolves.toMatchObject({status: 404});
+        expect(requests).toEqual([
+            'delete /api/categories/1/',
+            'delete /api/categories/1/',
+        ]);
+    });
+
+    it('should not retry client errors', async () => {
+        const {client, requests} = createClient([404, 200]);
+        setupRetry(client, options);
+
+        await expect(client.get('/api/components/')).rejects.toThrow(
+            'status code 404',
+        );
+        expect(requests).toHaveLength(1);
+    });
+
+    it('should fail on 404 of the first DELETE attempt', async () => {
+        const {client, requests} = createClient([404]);
+        setupRetry(client, options);
+
+        await expect(client.delete('/api/categories/1/')).rejects.toThrow(
+            'status code 404',
+        );
+        expect(requests).toHaveLength(1);
+    });
+});
+
+describe('parseRetryAfter', () => {
+    it('should parse seconds and dates', () => {
+        const now = Date.parse('2024-01-01T00:00:00Z');
+
+        expect(parseRetryAfter('3', now)).toBe(3000);
+        expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:10 GMT', now)).toBe(
+            10000,
+        );
+        expect(parseRetryAfter('soon', now)).toBeUndefined();
+        expect(parseRetryAfter(undefined, now)).toBeUndefined();
+    });
+});
+
+describe('getRetryDelay', () => {
+    const delayOptions = {maxRetries: 5, baseDelay: 1000, maxDelay: 5000};
+
+    it('should double the delay with jitter up to the maximum', () => {
+        jest.spyOn(Math, 'random').mockReturnValue(1);
+
+        expect(getRetryDelay(1, delayOptions)).toBe(1000);
+        expect(getRetryDelay(3, delayOptions)).toBe(4000);
+        expect(getRetryDelay(5, delayOptions)).toBe(5000);
+
+        jest.spyOn(Math, 'random').mockReturnValue(0);
+
+        expect(getRetryDelay(3, delayOptions)).toBe(2000);
+    });
+
+    it('should prefer Retry-After limited by the maximum delay', () => {
+        expect(getRetryDelay(1, delayOptions, 3000)).toBe(3000);
+        expect(getRetryDelay(1, delayOptions, 60000)).toBe(5000);
+    });
+});
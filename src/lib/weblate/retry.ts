@@ -0,0 +1,132 @@
+import {isAxiosError} from 'axios';
+import type {AxiosError, AxiosInstance} from 'axios';
+import {sleep} from '../../utils';
+
+declare module 'axios' {
+    interface AxiosRequestConfig {
+        // Retries a non-idempotent request that is safe to repeat, e.g. a pull
+        retry?: boolean;
+        retryAttempt?: number;
+    }
+}
+
+export type RetryOptions = {
+    // Retries after the first attempt, 0 disables retries
+    maxRetries: number;
+    // Delay before the first retry, doubled for every next one
+    baseDelay: number;
+    maxDelay: number;
+};
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+    maxRetries: 5,
+    baseDelay: 1000,
+    maxDelay: 30 * 1000,
+};
+
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+// Timeouts, rate limits and unavailable server during restarts
+const RETRYABLE_STATUSES = [408, 429, 502, 503, 504];
+
+/**
+ * Parses the Retry-After header
+ *
+ * @param value - Number of seconds or HTTP date
+ * @param now - Current timestamp
+ * @returns Delay in milliseconds or undefined if the header is invalid
+ */
+export const parseRetryAfter = (value: unknown, now = Date.now()) => {
+    if (typeof value !== 'string' || !value.trim()) {
+        return undefined;
+    }
+
+    const seconds = Number(value);
+
+    if (!isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(value);
+
+    return isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+/**
+ * Returns delay before the retry: exponential backoff with jitter
+ * or the delay requested by the server
+ *
+ * @param attempt - Number of the retry starting from 1
+ * @param options - Retry options
+ * @param retryAfter - Delay from the Retry-After header
+ * @returns Delay in milliseconds, not greater than maxDelay
+ */
+export const getRetryDelay = (
+    attempt: number,
+    {baseDelay, maxDelay}: RetryOptions,
+    retryAfter?: number,
+) => {
+    if (retryAfter !== undefined) {
+        return Math.min(retryAfter, maxDelay);
+    }
+
+    const delay = Math.min(baseDelay * 2 ** (attempt - 1), maxDelay);
+
+    // Half of the delay is random, so parallel requests don't retry at once
+    return Math.round(delay / 2 + (Math.random() * delay) / 2);
+};
+
+export const isRetryableError = (error: AxiosError) => {
+    const method = error.config?.method?.toLowerCase() ?? '';
+
+    if (!IDEMPOTENT_METHODS.includes(method) && !error.config?.retry) {
+        return false;
+    }
+
+    // Network errors and timeouts have no response
+    return (
+        !error.response || RETRYABLE_STATUSES.includes(error.response.status)
+    );
+};
+
+// The first attempt of a retried DELETE may succeed on the server after its response is lost
+const isDeletedByPreviousAttempt = (error: AxiosError) =>
+    error.config?.method?.toLowerCase() === 'delete' &&
+    Boolean(error.config.retryAttempt) &&
+    error.response?.status === 404;
+
+// Retries failed idempotent requests of the client and requests marked with "retry"
+export const setupRetry = (client: AxiosInstance, options: RetryOptions) => {
+    client.interceptors.response.use(undefined, async (error: unknown) => {
+        if (isAxiosError(error) && isDeletedByPreviousAttempt(error)) {
+            return error.response;
+        }
+
+        if (!isAxiosError(error) || !error.config || !isRetryableError(error)) {
+            throw error;
+        }
+
+        const attempt = (error.config.retryAttempt ?? 0) + 1;
+
+        if (attempt > options.maxRetries) {
+            throw error;
+        }
+
+        const delay = getRetryDelay(
+            attempt,
+            options,
+            parseRetryAfter(error.response?.headers['retry-after']),
+        );
+
+        console.log(
+            `Weblate request ${error.config.method?.toUpperCase()} ${
+                error.config.url
+            } failed (${
+                error.response?.status ?? error.code
+            }), retry ${attempt}/${options.maxRetries} in ${delay}ms`,
+        );
+
+        await sleep(delay);
+
+        return client.request({...error.config, retryAttempt: attempt});
+    });
+};
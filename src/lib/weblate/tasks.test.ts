@@ -0,0 +1,58 @@
+import {
+    formatTasksProgress,
+    formatTasksTimeoutError,
+    getPollDelay,
+} from './tasks';
+
+const tasks = ['a', 'b', 'c', 'd', 'e', 'f', 'g'].map(name => ({
+    name,
+    categorySlug: 'main',
+    taskId: `task-${name}`,
+}));
+
+describe('getPollDelay', () => {
+    const options = {timeout: 60000, pollInterval: 1000, maxPollInterval: 5000};
+
+    it('should double the delay up to the maximum', () => {
+        expect([1, 2, 3, 4].map(round => getPollDelay(round, options))).toEqual(
+            [1000, 2000, 4000, 5000],
+        );
+    });
+});
+
+describe('formatTasksProgress', () => {
+    it('should list pending components', () => {
+        expect(formatTasksProgress(40, tasks.slice(0, 2))).toBe(
+            '38/40 done, waiting on main/a, main/b',
+        );
+    });
+
+    it('should truncate the list of pending components', () => {
+        expect(formatTasksProgress(40, tasks)).toBe(
+            '33/40 done, waiting on main/a, main/b, main/c, main/d, main/e and 2 more',
+        );
+    });
+
+    it('should report finished tasks', () => {
+        expect(formatTasksProgress(40, [])).toBe('40/40 done');
+    });
+});
+
+describe('formatTasksTimeoutError', () => {
+    it('should list stuck tasks with their urls', () => {
+        expect(
+            formatTasksTimeoutError(
+                'https://weblate.test',
+                600000,
+                40,
+                tasks.slice(0, 2),
+            ),
+        ).toBe(
+            [
+                'Tasks of 2 of 40 components are not finished in 600s:',
+                '  - main/a: https://weblate.test/api/tasks/task-a/',
+                '  - main/b: https://weblate.test/api/tasks/task-b/',
+            ].join('\n'),
+        );
+    });
+});
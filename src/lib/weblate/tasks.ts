@@ -0,0 +1,91 @@
+import {getItemPath} from './concurrency';
+
+export type TaskWaitOptions = {
+    // Total time of waiting for the tasks of components
+    timeout: number;
+    // Delay before the second check, doubled for every next one
+    pollInterval: number;
+    maxPollInterval: number;
+};
+
+export const DEFAULT_TASK_WAIT_OPTIONS: TaskWaitOptions = {
+    timeout: 10 * 60 * 1000,
+    pollInterval: 2000,
+    maxPollInterval: 30 * 1000,
+};
+
+export type PendingTask = {
+    name: string;
+    categorySlug?: string;
+    taskId: string;
+};
+
+// Names of the pending components in the progress log
+const MAX_LOGGED_TASKS = 5;
+
+/**
+ * Returns delay before the next check of unfinished tasks
+ *
+ * @param round - Number of the finished check starting from 1
+ * @param options - Task wait options
+ * @returns Delay in milliseconds, not greater than maxPollInterval
+ */
+export const getPollDelay = (
+    round: number,
+    {pollInterval, maxPollInterval}: TaskWaitOptions,
+) => Math.min(pollInterval * 2 ** (round - 1), maxPollInterval);
+
+/**
+ * Formats progress of waiting for the tasks
+ *
+ * @param total - Number of components
+ * @param pendingTasks - Tasks that are not finished yet
+ * @returns Progress line (e.g., "12/40 done, waiting on main/a, main/b")
+ */
+export const formatTasksProgress = (
+    total: number,
+    pendingTasks: PendingTask[],
+) => {
+    const done = `${total - pendingTasks.length}/${total} done`;
+
+    if (!pendingTasks.length) {
+        return done;
+    }
+
+    const names = pendingTasks.slice(0, MAX_LOGGED_TASKS).map(getItemPath);
+    const more =
+        pendingTasks.length > MAX_LOGGED_TASKS
+            ? ` and ${pendingTasks.length - MAX_LOGGED_TASKS} more`
+            : '';
+
+    return `${done}, waiting on ${names.join(', ')}${more}`;
+};
+
+/**
+ * Formats the error about tasks that are not finished in time
+ *
+ * @param serverUrl - Weblate url
+ * @param timeout - Task wait timeout in milliseconds
+ * @param total - Number of components
+ * @param pendingTasks - Tasks that are not finished
+ * @returns Error message listing every stuck task with its url
+ */
+export const formatTasksTimeoutError = (
+    serverUrl: string,
+    timeout: number,
+    total: number,
+    pendingTasks: PendingTask[],
+) =>
+    [
+        `Tasks of ${
+            pendingTasks.length
+        } of ${total} components are not finished in ${Math.ceil(
+            timeout / 1000,
+        )}s:`,
+        ...pendingTasks.map(
+            task =>
+                `  - ${getItemPath(task)}: ${serverUrl}/api/tasks/${
+                    task.taskId
+                }/`,
+        ),
+    ].join('\n');
@@ -10,9 +10,17 @@ export type Category = {
     project: string;
     name: string;
     slug: string;
+    // Id of the parent category
+    category?: string;
     wasRecentlyCreated?: boolean;
 };
 
+export type CategoryNode = Category & {
+    // Names and slugs of categories from the root category
+    path: string[];
+    slugPath: string[];
+};
+
 export type Component = {
     id: string;
     project: string;
@@ -22,13 +30,35 @@ export type Component = {
     filemask: string;
     repo: string;
     template: string;
+    new_base?: string;
     category?: string;
     task_url?: string;
+    source_language?: {code: string};
     git_export?: string;
     wasRecentlyCreated?: boolean;
     linked_component: string | null;
 };
 
+export type Addon = {
+    id: string;
+    name: string;
+    configuration?: Record<string, unknown>;
+};
+
+// Names of addons changed on the component
+export type AddonsReport = {
+    installed: string[];
+    updated: string[];
+    removed: string[];
+};
+
+export type CategoryComponent = Component & {
+    // Full slug of the category, e.g. "main/app-a"
+    categorySlug: string;
+    // Path of the nested category from the branch category, e.g. "app-a"
+    group?: string;
+};
+
 export type ComponentTranslationStats = {
     total: number;
     total_words: number;
@@ -50,6 +80,19 @@ export type ComponentTranslationStats = {
     url: string;
 };
 
+export type TranslationUnit = {
+    id: string;
+    // Key of the string in monolingual formats
+    context: string;
+    // Plural forms of the string
+    source: string[];
+    target: string[];
+    translated: boolean;
+    fuzzy: boolean;
+    // Translate page of the string
+    web_url: string;
+};
+
 export type ComponentRepository = {
     needs_commit: boolean;
     needs_merge: boolean;
@@ -0,0 +1,623 @@
+import {AxiosError} from 'axios';
+import type {
+    AxiosInstance,
+    AxiosResponse,
+    InternalAxiosRequestConfig,
+} from 'axios';
+import {Plan} from '../plan';
+import {Weblate} from './weblate';
+
+const serverUrl = 'https://weblate.test';
+
+type Route = (config: InternalAxiosRequestConfig) => unknown;
+
+// Routes return it for missing resources
+const NOT_FOUND = Symbol('not found');
+
+const component = (slug: string, categoryId: string) => ({
+    name: slug,
+    slug,
+    url: `${serverUrl}/api/components/project/${slug}/`,
+    category: `${serverUrl}/api/categories/${categoryId}/`,
+});
+
+const createWeblate = (
+    route: Route,
+    options: Partial<ConstructorParameters<typeof Weblate>[0]> = {},
+) => {
+    const weblate = new Weblate({
+        serverUrl,
+        token: 'token',
+        project: 'project',
+        mainLanguage: 'en',
+        fileFormat: 'i18next',
+        ...options,
+    });
+    const requests: string[] = [];
+
+    (weblate as unknown as {client: AxiosInstance}).client.defaults.adapter =
+        async config => {
+            requests.push(
+                `${config.method} ${config.url} ${JSON.stringify(
+                    config.params ?? {},
+                )}`,
+            );
+
+            const data = route(config);
+            const notFound = data === NOT_FOUND;
+            // AxiosResponse is extended with Promise methods in weblate.ts
+            const response = {
+                data: notFound ? {detail: 'Not found.'} : data,
+                status: notFound ? 404 : 200,
+                statusText: notFound ? 'Not Found' : 'OK',
+                headers: {},
+                config,
+            } as unknown as AxiosResponse;
+
+            if (notFound) {
+                throw new AxiosError(
+                    'Not found',
+                    AxiosError.ERR_BAD_REQUEST,
+                    config,
+                    undefined,
+                    response,
+                );
+            }
+
+            return response;
+        };
+
+    return {weblate, requests};
+};
+
+describe('Weblate components cache', () => {
+    const allComponents = [
+        component('a', '1'),
+        component('b', '2'),
+        component('c', '1'),
+    ];
+
+    it('should filter components by category on the server', async () => {
+        const {weblate, requests} = createWeblate(({params}) => ({
+            next: null,
+            results: allComponents.filter(({category}) =>
+                category.endsWith(`/${params.category}/`),
+            ),
+        }));
+
+        const components = await weblate.getComponentsInCategory({
+            categoryId: '1',
+        });
+
+        expect(components.map(({slug}) => slug)).toEqual(['a', 'c']);
+        expect(requests).toEqual([
+            'get /api/projects/project/components/ {"page":1,"category":"1"}',
+        ]);
+    });
+
+    it('should list the whole project once if the filter is not supported', async () => {
+        const {weblate, requests} = createWeblate(({params}) =>
+            params.page === 1
+                ? {
+                      next: `${serverUrl}/api/projects/project/components/?category=1&page=2`,
+                      results: allComponents.slice(0, 2),
+                  }
+                : {next: null, results: allComponents.slice(2)},
+        );
+
+        const first = await weblate.getComponentsInCategory({categoryId: '1'});
+        const second = await weblate.getComponentsInCategory({categoryId: '2'});
+        const empty = await weblate.getComponentsInCategory({categoryId: '3'});
+
+        expect(first.map(({slug}) => slug)).toEqual(['a', 'c']);
+        expect(second.map(({slug}) => slug)).toEqual(['b']);
+        expect(empty).toEqual([]);
+        expect(requests).toEqual([
+            'get /api/projects/project/components/ {"page":1,"category":"1"}',
+            'get /api/projects/project/components/ {"page":1}',
+            'get /api/projects/project/components/ {"page":2}',
+        ]);
+    });
+
+    it('should invalidate the cache after writes', async () => {
+        const {weblate, requests} = createWeblate(({method, params}) =>
+            method === 'get'
+                ? {
+                      next: null,
+                      results: allComponents.filter(({category}) =>
+                          category.endsWith(`/${params.category}/`),
+                      ),
+                  }
+                : {},
+        );
+
+        await weblate.getComponentsInCategory({categoryId: '1'});
+        await weblate.getComponentsInCategory({categoryId: '1'});
+        await weblate.removeComponent({name: 'a', categorySlug: 'main'});
+        await weblate.getComponentsInCategory({categoryId: '1'});
+
+        expect(requests).toEqual([
+            'get /api/projects/project/components/ {"page":1,"category":"1"}',
+            'delete /api/components/project/main%252Fa/ {}',
+            'get /api/projects/project/components/ {"page":1,"category":"1"}',
+        ]);
+    });
+});
+
+describe('Weblate addons', () => {
+    const installedAddons: Record<string, unknown> = {
+        '1': {
+            id: 1,
+            name: 'weblate.git.squash',
+            configuration: {squash: 'all'},
+        },
+        '2': {
+            id: 2,
+            name: 'weblate.json.customize',
+            configuration: {indent: 2, sort_keys: 1},
+        },
+        '3': {id: 3, name: 'weblate.flags.same_edit', configuration: {}},
+        '4': {id: 4, name: 'weblate.git.squash', configuration: {}},
+        // Installed by hand in Weblate
+        '5': {id: 5, name: 'weblate.discovery.discovery', configuration: {}},
+    };
+    const route: Route = ({method, url = ''}) => {
+        if (method !== 'get') {
+            return {};
+        }
+
+        if (url.startsWith('/api/addons/')) {
+            return installedAddons[url.split('/')[3]];
+        }
+
+        return {
+            name: 'common',
+            slug: 'common',
+            addons: Object.keys(installedAddons).map(
+                id => `${serverUrl}/api/addons/${id}/`,
+            ),
+        };
+    };
+    const addons = {
+        main_branch: [
+            {name: 'weblate.git.squash', configuration: {squash: 'all'}},
+            {name: 'weblate.json.customize', configuration: {indent: 4}},
+            {name: 'weblate.cleanup.generic'},
+        ],
+    };
+
+    it('should remove stale built-in and duplicate addons and keep other ones without pruning', async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        const {weblate, requests} = createWeblate(route, {addons});
+
+        const report = await weblate.reconcileComponentAddons({
+            name: 'common',
+            addonsType: 'main-branch',
+        });
+
+        expect(report).toEqual({
+            installed: ['weblate.cleanup.generic'],
+            updated: ['weblate.json.customize'],
+            removed: ['weblate.flags.same_edit', 'weblate.git.squash'],
+        });
+        expect(requests.filter(request => !request.startsWith('get'))).toEqual([
+            'patch /api/addons/2/ {}',
+            'delete /api/addons/3/ {}',
+            'delete /api/addons/4/ {}',
+            'post /api/components/project/common/addons/ {}',
+        ]);
+    });
+
+    it('should remove other addons with pruning', async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        const {weblate, requests} = createWeblate(route, {
+            addons: {...addons, prune: true},
+        });
+
+        const report = await weblate.reconcileComponentAddons({
+            name: 'common',
+            addonsType: 'main-branch',
+        });
+
+        expect(report).toEqual({
+            installed: ['weblate.cleanup.generic'],
+            updated: ['weblate.json.customize'],
+            removed: [
+                'weblate.flags.same_edit',
+                'weblate.git.squash',
+                'weblate.discovery.discovery',
+            ],
+        });
+        expect(requests.filter(request => !request.startsWith('get'))).toEqual([
+            'patch /api/addons/2/ {}',
+            'delete /api/addons/3/ {}',
+            'delete /api/addons/4/ {}',
+            'delete /api/addons/5/ {}',
+            'post /api/components/project/common/addons/ {}',
+        ]);
+    });
+
+    it('should compare addons of existing components only on request', async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        const {weblate, requests} = createWeblate(route, {addons});
+        const params = {
+            name: 'common',
+            fileMask: 'i18n/common/*.json',
+            source: 'i18n/common/en.json',
+            repo: 'https://github.com/org/repo.git',
+            applyAddons: 'main-branch' as const,
+        };
+
+        await weblate.createComponent(params);
+
+        expect(requests).toEqual(['get /api/components/project/common/ {}']);
+
+        await weblate.createComponent({...params, reconcileAddons: true});
+
+        expect(
+            requests.filter(request =>
+                request.startsWith('get /api/components/'),
+            ),
+        ).toHaveLength(2);
+        expect(
+            requests.filter(request => request.startsWith('get /api/addons/')),
+        ).toHaveLength(5);
+    });
+
+    it('should plan addon changes in the dry run', async () => {
+        const plan = new Plan();
+        const {weblate, requests} = createWeblate(route, {
+            addons: {...addons, prune: true},
+            plan,
+        });
+
+        await weblate.reconcileComponentAddons({
+            name: 'common',
+            addonsType: 'main-branch',
+        });
+
+        expect(requests.every(request => request.startsWith('get'))).toBe(true);
+        expect(plan.format().split('\n').slice(1)).toEqual([
+            "~ update configuration of addon 'weblate.json.customize' on 'common'",
+            "- remove addon 'weblate.flags.same_edit' from 'common'",
+            "- remove addon 'weblate.git.squash' from 'common'",
+            "- remove addon 'weblate.discovery.discovery' from 'common'",
+            "+ install addon 'weblate.cleanup.generic' on 'common'",
+        ]);
+    });
+});
+
+describe('Weblate dry run', () => {
+    const categories = [
+        {
+            url: `${serverUrl}/api/categories/1/`,
+            name: 'master',
+            slug: 'master',
+        },
+        {
+            url: `${serverUrl}/api/categories/2/`,
+            name: 'app-a',
+            slug: 'app-a',
+            category: `${serverUrl}/api/categories/1/`,
+        },
+    ];
+    const components = [component('common', '1'), component('pages', '2')];
+    const route: Route = ({url = '', params}) => {
+        if (url === '/api/projects/project/categories/') {
+            return {next: null, results: categories};
+        }
+
+        if (url === '/api/projects/project/components/') {
+            return {
+                next: null,
+                results: components.filter(({category}) =>
+                    category.endsWith(`/${params.category}/`),
+                ),
+            };
+        }
+
+        return NOT_FOUND;
+    };
+
+    it('should plan new categories and components without writes', async () => {
+        const plan = new Plan();
+        const {weblate, requests} = createWeblate(route, {plan});
+
+        const category = await weblate.createCategoryForBranch('feature__1');
+        const createdComponent = await weblate.createComponent({
+            name: 'common__1',
+            fileMask: 'src/i18n/common/*.json',
+            source: 'src/i18n/common/en.json',
+            repo: 'https://github.com/org/repo',
+            branch: 'feature',
+            categoryId: category.id,
+            categorySlug: category.slug,
+            applyAddons: false,
+        });
+        await weblate.waitComponentsTasks({components: [createdComponent]});
+
+        expect(category).toMatchObject({
+            id: 'planned:feature-1',
+            wasRecentlyCreated: true,
+        });
+        expect(createdComponent).toMatchObject({
+            slug: 'common-1',
+            wasRecentlyCreated: true,
+            linked_component: null,
+        });
+        expect(requests.every(request => request.startsWith('get'))).toBe(true);
+        expect(plan.format().split('\n')).toEqual([
+            'Dry run: 2 change(s) planned in Weblate',
+            "+ create category 'feature__1' (slug: feature-1)",
+            "+ create component 'feature-1/common__1'",
+            '    repo: https://github.com/org/repo (branch: feature)',
+            '    filemask: src/i18n/common/*.json',
+            '    source: src/i18n/common/en.json',
+        ]);
+    });
+
+    it('should plan changes of existing components and categories without writes', async () => {
+        const plan = new Plan();
+        const {weblate, requests} = createWeblate(route, {plan});
+
+        await weblate.updateComponent({
+            name: 'common',
+            categorySlug: 'master',
+            repo: 'https://github.com/org/repo',
+            branch: 'master',
+        });
+        await weblate.updateComponent({
+            name: 'pages',
+            categorySlug: 'master/app-a',
+            repo: 'weblate://project/master/common',
+        });
+        await weblate.pullComponentRemoteChanges({
+            name: 'common',
+            categorySlug: 'master',
+        });
+        await weblate.removeComponent({name: 'pages', categorySlug: 'master'});
+        await weblate.removeCategory('1', 'master');
+
+        expect(requests.every(request => request.startsWith('get'))).toBe(true);
+        expect(plan.toJSON().map(({type}) => type)).toEqual([
+            'update-component',
+            'relink-component',
+            'pull-component',
+            'remove-component',
+            'remove-category',
+            'remove-category',
+        ]);
+        expect(plan.format().split('\n').slice(1)).toEqual([
+            "~ update component 'master/common'",
+            '    repo: https://github.com/org/repo (branch: master)',
+            "~ relink component 'master/app-a/pages' to weblate://project/master/common",
+            "~ pull remote changes into 'master/common'",
+            "- remove component 'master/pages'",
+            "- remove category 'master/app-a'",
+            "    - with component 'pages'",
+            "- remove category 'master'",
+            "    - with component 'common'",
+        ]);
+        // Planned removals are hidden from the next lookups
+        await expect(
+            weblate.findCategoryForBranch('master'),
+        ).resolves.toBeUndefined();
+    });
+});
+
+describe('Weblate category tree', () => {
+    const category = (id: string, name: string, parentId?: string) => ({
+        url: `${serverUrl}/api/categories/${id}/`,
+        name,
+        slug: name,
+        category: parentId ? `${serverUrl}/api/categories/${parentId}/` : null,
+    });
+    // Children are listed before parents, the order of removal can't follow the listing
+    const categories = [
+        category('4', 'pages', '2'),
+        category('3', 'app-b', '1'),
+        category('2', 'app-a', '1'),
+        category('1', 'master'),
+        category('5', 'other'),
+    ];
+    const components = [
+        component('common', '1'),
+        component('forms', '3'),
+        component('pages', '4'),
+        component('other', '5'),
+    ];
+    const route: Route = ({method, url = '', params}) => {
+        if (method === 'delete') {
+            return {};
+        }
+
+        if (url === '/api/projects/project/categories/') {
+            return {next: null, results: categories};
+        }
+
+        if (url === '/api/projects/project/components/') {
+            return {
+                next: null,
+                results: components.filter(({category: categoryUrl}) =>
+                    categoryUrl.endsWith(`/${params.category}/`),
+                ),
+            };
+        }
+
+        return NOT_FOUND;
+    };
+
+    it('should return nested categories with parents before children', async () => {
+        const {weblate} = createWeblate(route);
+
+        const descendants = await weblate.getCategoryDescendants('1');
+
+        expect(
+            descendants.map(({id, path, slugPath}) => ({id, path, slugPath})),
+        ).toEqual([
+            {id: '3', path: ['app-b'], slugPath: ['app-b']},
+            {id: '2', path: ['app-a'], slugPath: ['app-a']},
+            {id: '4', path: ['app-a', 'pages'], slugPath: ['app-a', 'pages']},
+        ]);
+    });
+
+    it('should remove nested categories bottom-up', async () => {
+        const {weblate, requests} = createWeblate(route);
+
+        await weblate.removeCategory('1', 'master');
+
+        expect(
+            requests.filter(request => request.startsWith('delete')),
+        ).toEqual([
+            'delete /api/categories/4/ {}',
+            'delete /api/categories/2/ {}',
+            'delete /api/categories/3/ {}',
+            'delete /api/categories/1/ {}',
+        ]);
+    });
+
+    it('should return components of nested categories with their slugs and groups', async () => {
+        const {weblate} = createWeblate(route);
+
+        const treeComponents = await weblate.getComponentsInCategoryTree({
+            categoryId: '1',
+            categorySlug: 'master',
+        });
+
+        expect(
+            treeComponents.map(({slug, categorySlug, group}) => ({
+                slug,
+                categorySlug,
+                group,
+            })),
+        ).toEqual([
+            {slug: 'common', categorySlug: 'master', group: undefined},
+            {slug: 'forms', categorySlug: 'master/app-b', group: 'app-b'},
+            {
+                slug: 'pages',
+                categorySlug: 'master/app-a/pages',
+                group: 'app-a/pages',
+            },
+        ]);
+    });
+});
+
+describe('Weblate tasks', () => {
+    const components = ['a', 'b', 'c'].map(name => ({
+        name,
+        categorySlug: 'main',
+    }));
+    // Task of "a" is finished on the second check, "c" has no task
+    const createRoute = (): Route => {
+        let checksOfA = 0;
+
+        return ({url = ''}) => {
+            if (url.startsWith('/api/tasks/')) {
+                const taskId = url.split('/')[3];
+
+                if (taskId === 'task-a') {
+                    checksOfA++;
+                }
+
+                return {completed: taskId === 'task-a' && checksOfA > 1};
+            }
+
+            const slug = decodeURIComponent(
+                decodeURIComponent(url.split('/')[4]),
+            ).split('/')[1];
+
+            return {
+                name: slug,
+                slug,
+                task_url:
+                    slug === 'c'
+                        ? null
+                        : `${serverUrl}/api/tasks/task-${slug}/`,
+            };
+        };
+    };
+
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should poll only unfinished tasks and fail with stuck tasks', async () => {
+        const {weblate, requests} = createWeblate(createRoute(), {
+            taskWait: {timeout: 50, pollInterval: 20, maxPollInterval: 20},
+        });
+
+        await expect(weblate.waitComponentsTasks({components})).rejects.toThrow(
+            [
+                'Tasks of 1 of 3 components are not finished in 1s:',
+                `  - main/b: ${serverUrl}/api/tasks/task-b/`,
+            ].join('\n'),
+        );
+
+        const taskRequests = requests.filter(request =>
+            request.startsWith('get /api/tasks/'),
+        );
+
+        expect(taskRequests.slice(0, 4)).toEqual([
+            'get /api/tasks/task-a/ {}',
+            'get /api/tasks/task-b/ {}',
+            'get /api/tasks/task-a/ {}',
+            'get /api/tasks/task-b/ {}',
+        ]);
+        expect(
+            taskRequests.slice(4).every(request => request.includes('task-b')),
+        ).toBe(true);
+        expect(
+            requests.filter(request =>
+                request.startsWith('get /api/components/'),
+            ),
+        ).toHaveLength(3);
+        expect(console.log).toHaveBeenCalledWith(
+            'Weblate tasks: 1/3 done, waiting on main/a, main/b',
+        );
+        expect(console.log).toHaveBeenCalledWith(
+            'Weblate tasks: 2/3 done, waiting on main/b',
+        );
+    });
+});
+
+describe('Weblate translation units', () => {
+    it('should search strings of the translation', async () => {
+        const {weblate, requests} = createWeblate(() => ({
+            count: 1,
+            next: null,
+            results: [
+                {
+                    url: `${serverUrl}/api/units/1/`,
+                    context: 'title',
+                    source: ['Title'],
+                    target: [''],
+                    translated: false,
+                    fuzzy: false,
+                    web_url: `${serverUrl}/translate/project/main%252Fcommon/de/?checksum=1`,
+                },
+            ],
+        }));
+
+        const {count, results} = await weblate.getTranslationUnits({
+            name: 'common',
+            categorySlug: 'main',
+            language: 'de',
+            query: 'state:<translated',
+            pageSize: 20,
+        });
+
+        expect(count).toBe(1);
+        expect(results[0]).toMatchObject({
+            id: '1',
+            context: 'title',
+            web_url: `${serverUrl}/translate/project/main%252Fcommon/de/?checksum=1`,
+        });
+        expect(requests).toEqual([
+            'get /api/translations/project/main%252Fcommon/de/units/ {"q":"state:<translated","page_size":20}',
+        ]);
+    });
+});
@@ -1,15 +1,45 @@
-import axios, {isAxiosError} from 'axios';
+import axios, {getAdapter} from 'axios';
 import https from 'https';
+import isMatch from 'lodash/isMatch';
 import type {AxiosInstance} from 'axios';
 import type {
+    Addon,
+    AddonsReport,
     Category,
+    CategoryComponent,
+    CategoryNode,
     Component,
     ComponentRepository,
     ComponentTranslationStats,
     Paginated,
+    TranslationUnit,
 } from './types';
 import {normalizeResponse, slugify} from './normalizers';
+import {createLimiter, mapBatch} from './concurrency';
+import {WeblateNotFoundError, toWeblateError} from './errors';
+import {DEFAULT_RETRY_OPTIONS, setupRetry} from './retry';
+import type {RetryOptions} from './retry';
+import {
+    DEFAULT_TASK_WAIT_OPTIONS,
+    formatTasksProgress,
+    formatTasksTimeoutError,
+    getPollDelay,
+} from './tasks';
+import type {TaskWaitOptions} from './tasks';
 import {sleep} from '../../utils';
+import {FILE_FORMAT_ADDON_NAMES, getFileFormat} from '../formats';
+import {
+    DEFAULT_LANGUAGE_REGEX,
+    formatLanguageAliases,
+    toWeblateLanguageCode,
+} from '../languages';
+import type {LanguageAliases} from '../languages/languages';
+import type {Plan} from '../plan';
+import type {
+    AddonSettings,
+    BranchAddons,
+    ComponentSettings,
+} from '../repository-config/types';
 
 declare module 'axios' {
     interface AxiosResponse<T = any> extends Promise<T> {}
@@ -38,18 +68,10 @@ const getPullRequestMessage = ({
     ].join('\n');
 };
 
-const MAIN_BRANCH_COMPONENT_ADDONS = [
-    {
-        name: 'weblate.json.customize',
-        configuration: {
-            sort_keys: 1,
-            style: 'spaces',
-            indent: 2,
-        },
-    },
-];
+// Addons for the file format are installed in addition to these ones
+const MAIN_BRANCH_COMPONENT_ADDONS: AddonSettings[] = [];
 
-const DEFAULT_COMPONENT_ADDONS = [
+const DEFAULT_COMPONENT_ADDONS: AddonSettings[] = [
     {
         name: 'weblate.git.squash',
         configuration: {
@@ -61,14 +83,6 @@ const DEFAULT_COMPONENT_ADDONS = [
     },
     {name: 'weblate.flags.source_edit'},
     {name: 'weblate.flags.same_edit'},
-    {
-        name: 'weblate.json.customize',
-        configuration: {
-            sort_keys: 1,
-            style: 'spaces',
-            indent: 2,
-        },
-    },
     {name: 'weblate.gravity.custom'},
 ];
 
@@ -81,8 +95,11 @@ const getComponentSlug = ({
 }) => {
     const slug = slugify(name);
 
+    // Nested categories are separated by slashes
     return encodeURIComponent(
-        categorySlug ? `${categorySlug}%2F${slug}` : slug,
+        categorySlug
+            ? `${categorySlug.split('/').join('%2F')}%2F${slug}`
+            : slug,
     );
 };
 
@@ -92,13 +109,43 @@ interface WeblateConstructorArg {
     project: string;
     mainLanguage: string;
     fileFormat: string;
+    languageRegex?: string;
+    languageAliases?: LanguageAliases;
+    retry?: Partial<RetryOptions>;
+    taskWait?: Partial<TaskWaitOptions>;
+    // Maximum number of simultaneous requests to Weblate
+    maxConcurrency?: number;
+    // Replace the built-in addons of the branch type, prune removes other addons
+    addons?: BranchAddons;
+    // When passed, mutations are recorded into the plan instead of being applied
+    plan?: Plan;
 }
 
+const PLANNED_ID_PREFIX = 'planned:';
+
+// Matches the socket limit of the agent
+const DEFAULT_MAX_CONCURRENCY = 10;
+
 export class Weblate {
     private serverUrl: string;
     private project: string;
     private fileFormat: string;
     private mainLanguage: string;
+    private languageRegex: string;
+    private languageAliases: LanguageAliases;
+    private addons: BranchAddons;
+    private taskWait: TaskWaitOptions;
+    private plan?: Plan;
+    // Categories planned for removal are treated as missing in the dry run
+    private plannedRemovedCategoryIds = new Set<string>();
+    // Components by category id for the run, writes clear the cache
+    private componentsCache = new Map<string, Component[]>();
+    // Components of all categories are cached after listing the whole project
+    private componentsCacheIsComplete = false;
+    // Responses to requests sent before a write are not cached
+    private componentsCacheVersion = 0;
+    // Unknown until Weblate returns components for the filtered request
+    private categoryFilterSupported?: boolean;
     private client: AxiosInstance;
 
     constructor({
@@ -107,11 +154,23 @@ export class Weblate {
         project,
         fileFormat,
         mainLanguage,
+        languageRegex = DEFAULT_LANGUAGE_REGEX,
+        languageAliases = {},
+        retry,
+        taskWait,
+        maxConcurrency = DEFAULT_MAX_CONCURRENCY,
+        addons = {},
+        plan,
     }: WeblateConstructorArg) {
         this.serverUrl = serverUrl;
         this.project = project;
         this.fileFormat = fileFormat;
         this.mainLanguage = mainLanguage;
+        this.languageRegex = languageRegex;
+        this.languageAliases = languageAliases;
+        this.addons = addons;
+        this.taskWait = {...DEFAULT_TASK_WAIT_OPTIONS, ...taskWait};
+        this.plan = plan;
 
         this.client = axios.create({
             baseURL: serverUrl,
@@ -128,21 +187,83 @@ export class Weblate {
             maxContentLength: 500 * 1000 * 1000,
         });
         this.client.interceptors.response.use(normalizeResponse);
+
+        // Bulk operations send requests for all components at once
+        const limit = createLimiter(maxConcurrency);
+        const adapter = getAdapter(this.client.defaults.adapter);
+        this.client.defaults.adapter = config => limit(() => adapter(config));
+        setupRetry(this.client, {...DEFAULT_RETRY_OPTIONS, ...retry});
+        // Errors that are not retried anymore
+        this.client.interceptors.response.use(undefined, error => {
+            throw toWeblateError(error);
+        });
+    }
+
+    /**
+     * Runs the operation for all components, requests are limited by maxConcurrency
+     *
+     * @param action - Name of the operation for the error message (e.g., "create")
+     * @param components - Components
+     * @param operation - Operation for one component
+     * @returns Results in the order of components
+     * @throws Error listing every failed component if some operations fail
+     */
+    mapComponents<
+        T extends {name: string; categorySlug?: string; group?: string},
+        R,
+    >(
+        action: string,
+        components: T[],
+        operation: (component: T) => Promise<R>,
+    ) {
+        return mapBatch(action, components, operation);
+    }
+
+    createCategoryForBranch(branchName: string) {
+        return this.createCategory({name: branchName});
     }
 
-    async createCategoryForBranch(branchName: string) {
-        const category = await this.findCategoryForBranch(branchName);
+    async createCategory({
+        name,
+        parentId,
+        parentSlug,
+    }: {
+        name: string;
+        parentId?: string;
+        parentSlug?: string;
+    }) {
+        const category = await this.findCategory({name, parentId});
 
         if (category) {
             return category;
         }
 
+        const slug = slugify(name);
+
+        if (this.plan) {
+            const fullSlug = parentSlug ? `${parentSlug}/${slug}` : slug;
+
+            this.plan.add({type: 'create-category', name, slug: fullSlug});
+
+            return {
+                id: `${PLANNED_ID_PREFIX}${fullSlug}`,
+                project: this.project,
+                name,
+                slug,
+                category: parentId,
+                wasRecentlyCreated: true,
+            } as Category;
+        }
+
         const createdCategory = await this.client.post<Category>(
             '/api/categories/',
             {
                 project: `${this.serverUrl}/api/projects/${this.project}/`,
-                name: branchName,
-                slug: slugify(branchName),
+                category: parentId
+                    ? `${this.serverUrl}/api/categories/${parentId}/`
+                    : undefined,
+                name,
+                slug,
             },
         );
 
@@ -152,32 +273,93 @@ export class Weblate {
         };
     }
 
-    async findCategoryForBranch(branchName: string) {
-        let category: Category | undefined;
-        let page = 1;
+    // Branch categories are top-level ones
+    findCategoryForBranch(branchName: string) {
+        return this.findCategory({name: branchName});
+    }
 
-        while (!category) {
-            const {next, results} = await this.client.get<Paginated<Category>>(
-                `/api/projects/${this.project}/categories/`,
-                {
-                    params: {page, page_size: 1000},
-                },
-            );
+    async findCategory({name, parentId}: {name: string; parentId?: string}) {
+        for await (const category of this.iterateCategories()) {
+            if (category.name === name && category.category === parentId) {
+                return category;
+            }
+        }
 
-            category = results.find(({name}) => name === branchName);
+        return undefined;
+    }
 
-            if (next) {
-                page = next;
-            } else {
-                break;
+    async getCategories() {
+        const categories: Category[] = [];
+
+        for await (const category of this.iterateCategories()) {
+            categories.push(category);
+        }
+
+        return categories;
+    }
+
+    /**
+     * Returns all nested categories of the category, parents go before children
+     *
+     * @param categoryId - Id of the root category
+     * @returns Nested categories with names and slugs of the path from the root category
+     */
+    async getCategoryDescendants(categoryId: string) {
+        const categories = await this.getCategories();
+        const descendants: CategoryNode[] = [];
+        const queue: Array<{id: string; path: string[]; slugPath: string[]}> = [
+            {id: categoryId, path: [], slugPath: []},
+        ];
+
+        while (queue.length) {
+            const parent = queue.shift() as (typeof queue)[number];
+
+            for (const category of categories) {
+                if (category.category === parent.id) {
+                    const node = {
+                        ...category,
+                        path: [...parent.path, category.name],
+                        slugPath: [...parent.slugPath, category.slug],
+                    };
+
+                    descendants.push(node);
+                    queue.push(node);
+                }
             }
         }
 
-        return category;
+        return descendants;
     }
 
-    removeCategory(categoryId: string) {
-        return this.client.delete(`/api/categories/${categoryId}/`);
+    // Removes the category with nested categories and all their components
+    async removeCategory(categoryId: string, name?: string) {
+        const descendants = await this.getCategoryDescendants(categoryId);
+        const categoriesToRemove = [
+            ...descendants.reverse().map(({id, path}) => ({
+                id,
+                name: [name ?? categoryId, ...path].join('/'),
+            })),
+            {id: categoryId, name},
+        ];
+
+        for (const category of categoriesToRemove) {
+            if (this.plan) {
+                const components = await this.getComponentsInCategory({
+                    categoryId: category.id,
+                });
+
+                this.plan.add({
+                    type: 'remove-category',
+                    id: category.id,
+                    name: category.name,
+                    components: components.map(component => component.name),
+                });
+                this.plannedRemovedCategoryIds.add(category.id);
+            } else {
+                await this.client.delete(`/api/categories/${category.id}/`);
+                this.invalidateComponentsCache();
+            }
+        }
     }
 
     async createComponent({
@@ -192,8 +374,10 @@ export class Weblate {
         branchForUpdates,
         applyAddons = 'pull-request',
         updateIfExist,
+        reconcileAddons,
         pullRequestAuthor,
         pullRequestNumber,
+        settings = {},
     }: {
         name: string;
         fileMask: string;
@@ -206,21 +390,28 @@ export class Weblate {
         branchForUpdates?: string;
         applyAddons?: 'main-branch' | 'pull-request' | false;
         updateIfExist?: boolean;
+        // Compares addons of an existing component with the desired ones
+        reconcileAddons?: boolean;
         pullRequestAuthor?: string;
         pullRequestNumber?: number;
+        settings?: ComponentSettings;
     }) {
         const component = await this.findComponent({name, categorySlug});
 
         if (component) {
-            if (updateIfExist) {
-                if (applyAddons) {
-                    await this.applyDefaultAddonsToComponent({
-                        name,
-                        categorySlug,
-                        addonsType: applyAddons,
-                    });
-                }
+            // Addons of existing components are compared only when they may differ
+            if (applyAddons && (updateIfExist || reconcileAddons)) {
+                await this.reconcileComponentAddons({
+                    name,
+                    categorySlug,
+                    component,
+                    addonsType: applyAddons,
+                    fileFormat: settings.file_format,
+                    extraAddons: settings.addons,
+                });
+            }
 
+            if (updateIfExist) {
                 await this.updateComponent({
                     name,
                     categorySlug,
@@ -228,6 +419,7 @@ export class Weblate {
                     branch,
                     branchForUpdates,
                     fileMask,
+                    settings,
                 });
 
                 return {
@@ -240,13 +432,59 @@ export class Weblate {
             return component;
         }
 
+        if (this.plan) {
+            this.plan.add({
+                type: 'create-component',
+                name,
+                categorySlug,
+                repo,
+                branch,
+                fileMask,
+                source,
+            });
+
+            const plannedComponent = {
+                id: `${PLANNED_ID_PREFIX}${slugify(name)}`,
+                project: this.project,
+                name,
+                slug: slugify(name),
+                addons: [],
+                filemask: fileMask,
+                repo,
+                template: source,
+                linked_component: repo.startsWith('weblate://') ? repo : null,
+                wasRecentlyCreated: true,
+            } as Component;
+
+            if (applyAddons) {
+                await this.reconcileComponentAddons({
+                    name,
+                    categorySlug,
+                    component: plannedComponent,
+                    addonsType: applyAddons,
+                    fileFormat: settings.file_format,
+                    extraAddons: settings.addons,
+                });
+            }
+
+            return plannedComponent;
+        }
+
+        const fileFormat = getFileFormat(
+            settings.file_format ?? this.fileFormat,
+        );
+
         const params = {
             name,
             slug: slugify(name),
-            source_language: this.mainLanguage,
-            file_format: this.fileFormat,
+            source_language: toWeblateLanguageCode(
+                settings.source_language ?? this.mainLanguage,
+                this.languageAliases,
+            ),
+            file_format: fileFormat.id,
             filemask: fileMask,
-            language_regex: '^..$',
+            language_regex: settings.language_regex ?? this.languageRegex,
+            language_aliases: formatLanguageAliases(this.languageAliases),
             vcs: 'github',
             repo,
             push: repoForUpdates,
@@ -258,11 +496,12 @@ export class Weblate {
             category: categoryId
                 ? `${this.serverUrl}/api/categories/${categoryId}/`
                 : undefined,
-            template: source,
+            // Bilingual formats don't need a template
+            template: fileFormat.bilingual ? '' : source,
             new_base: source,
             allow_translation_propagation: false,
             manage_units: false,
-            merge_style: 'rebase',
+            merge_style: settings.merge_style ?? 'rebase',
             pull_message: getPullRequestMessage({
                 pullRequestAuthor,
                 pullRequestNumber,
@@ -273,12 +512,16 @@ export class Weblate {
             `/api/projects/${this.project}/components/`,
             params,
         );
+        this.invalidateComponentsCache();
 
         if (applyAddons) {
-            await this.applyDefaultAddonsToComponent({
+            await this.reconcileComponentAddons({
                 name,
                 categorySlug,
+                component: createdComponent,
                 addonsType: applyAddons,
+                fileFormat: settings.file_format,
+                extraAddons: settings.addons,
             });
         }
 
@@ -302,7 +545,7 @@ export class Weblate {
                 `/api/components/${this.project}/${componentSlug}/`,
             );
         } catch (error) {
-            if (isAxiosError(error) && error.response?.status === 404) {
+            if (error instanceof WeblateNotFoundError) {
                 return undefined;
             }
             throw error;
@@ -317,6 +560,7 @@ export class Weblate {
         repoForUpdates,
         branchForUpdates,
         fileMask,
+        settings = {},
     }: {
         name: string;
         categorySlug?: string;
@@ -325,18 +569,40 @@ export class Weblate {
         repoForUpdates?: string;
         branchForUpdates?: string;
         fileMask?: string;
+        settings?: ComponentSettings;
     }) {
         const componentSlug = getComponentSlug({name, categorySlug});
 
+        if (this.plan) {
+            this.plan.add({
+                type: repo.startsWith('weblate://')
+                    ? 'relink-component'
+                    : 'update-component',
+                name,
+                categorySlug,
+                repo,
+                branch,
+                fileMask,
+            });
+            return undefined;
+        }
+
         try {
-            return await this.client.put<Component>(
+            const component = await this.client.put<Component>(
                 `/api/components/${this.project}/${componentSlug}/`,
                 {
                     name,
                     slug: slugify(name),
                     filemask: fileMask,
-                    language_regex: '^..$',
-                    file_format: this.fileFormat,
+                    language_regex:
+                        settings.language_regex ?? this.languageRegex,
+                    language_aliases: formatLanguageAliases(
+                        this.languageAliases,
+                    ),
+                    file_format: getFileFormat(
+                        settings.file_format ?? this.fileFormat,
+                    ).id,
+                    merge_style: settings.merge_style,
                     repo,
                     push: repoForUpdates,
                     push_branch: repoForUpdates
@@ -345,15 +611,18 @@ export class Weblate {
                     branch,
                 },
             );
+            this.invalidateComponentsCache();
+
+            return component;
         } catch (error) {
-            if (isAxiosError(error) && error.response?.status === 404) {
+            if (error instanceof WeblateNotFoundError) {
                 return undefined;
             }
             throw error;
         }
     }
 
-    removeComponent({
+    async removeComponent({
         name,
         categorySlug,
     }: {
@@ -362,63 +631,72 @@ export class Weblate {
     }) {
         const componentSlug = getComponentSlug({name, categorySlug});
 
-        return this.client.delete(
+        if (this.plan) {
+            this.plan.add({type: 'remove-component', name, categorySlug});
+            return;
+        }
+
+        await this.client.delete(
             `/api/components/${this.project}/${componentSlug}/`,
         );
+        this.invalidateComponentsCache();
     }
 
-    async getComponentsInCategory({categoryId}: {categoryId: string}) {
-        const maxTries = 5;
-        let tries = 0;
-
-        while (tries < maxTries) {
-            let page = 1;
-            const components: Component[] = [];
-
-            try {
-                while (page) {
-                    const {next, results} = await this.client.get<
-                        Paginated<Component>
-                    >(`/api/projects/${this.project}/components/`, {
-                        params: {page},
-                    });
+    getComponentsInCategory({categoryId}: {categoryId: string}) {
+        return this.getComponentsInCategories([categoryId]);
+    }
 
-                    components.push(
-                        ...results.filter(
-                            ({category}) => category === categoryId,
-                        ),
-                    );
-
-                    if (next) {
-                        page = next;
-                    } else {
-                        break;
-                    }
-                }
+    // Returns components of the category and all nested categories
+    async getComponentsInCategoryTree({
+        categoryId,
+        categorySlug,
+    }: {
+        categoryId: string;
+        categorySlug: string;
+    }): Promise<CategoryComponent[]> {
+        const descendants = await this.getCategoryDescendants(categoryId);
+        const categories = [
+            {id: categoryId, categorySlug, group: undefined},
+            ...descendants.map(({id, path, slugPath}) => ({
+                id,
+                categorySlug: [categorySlug, ...slugPath].join('/'),
+                group: path.join('/'),
+            })),
+        ];
+
+        const components = await this.getComponentsInCategories(
+            categories.map(({id}) => id),
+        );
 
-                return components;
-            } catch (error) {
-                tries++;
-                if (tries === maxTries) {
-                    throw error;
-                } else {
-                    sleep(2000);
-                }
-            }
-        }
+        return components.map(component => {
+            const {categorySlug: componentCategorySlug, group} =
+                categories.find(({id}) => id === component.category) ??
+                categories[0];
 
-        return [];
+            return {
+                ...component,
+                categorySlug: componentCategorySlug,
+                group,
+            };
+        });
     }
 
-    async getMainComponentInCategory({categoryId}: {categoryId: string}) {
-        const components = await this.getComponentsInCategory({
+    async getMainComponentInCategory({
+        categoryId,
+        categorySlug,
+    }: {
+        categoryId: string;
+        categorySlug: string;
+    }) {
+        const components = await this.getComponentsInCategoryTree({
             categoryId,
+            categorySlug,
         });
 
         return components.find(({linked_component}) => !linked_component);
     }
 
-    pullComponentRemoteChanges({
+    async pullComponentRemoteChanges({
         name,
         categorySlug,
     }: {
@@ -427,9 +705,16 @@ export class Weblate {
     }) {
         const componentSlug = getComponentSlug({name, categorySlug});
 
-        return this.client.post(
+        if (this.plan) {
+            this.plan.add({type: 'pull-component', name, categorySlug});
+            return;
+        }
+
+        await this.client.post(
             `/api/components/${this.project}/${componentSlug}/repository/`,
             {operation: 'pull'},
+            // Pulling twice is safe
+            {retry: true},
         );
     }
 
@@ -449,46 +734,188 @@ export class Weblate {
         return results.map(result => ({...result, componentName: name}));
     }
 
-    async applyDefaultAddonsToComponent({
+    /**
+     * Returns the first page of strings of the translation
+     *
+     * @param params - Translation and the search query
+     * @param params.name - Component name
+     * @param params.categorySlug - Full slug of the component category
+     * @param params.language - Language code of the translation
+     * @param params.query - Weblate search query (e.g., "state:<translated")
+     * @param params.pageSize - Number of returned strings
+     * @returns Strings and the total number of matching strings
+     */
+    getTranslationUnits({
         name,
         categorySlug,
-        addonsType = 'pull-request',
+        language,
+        query,
+        pageSize,
     }: {
         name: string;
         categorySlug?: string;
-        addonsType?: 'main-branch' | 'pull-request';
+        language: string;
+        query: string;
+        pageSize: number;
     }) {
         const componentSlug = getComponentSlug({name, categorySlug});
 
-        const addons =
-            addonsType === 'pull-request'
-                ? DEFAULT_COMPONENT_ADDONS
-                : MAIN_BRANCH_COMPONENT_ADDONS;
+        return this.client.get<Paginated<TranslationUnit>>(
+            `/api/translations/${this.project}/${componentSlug}/${language}/units/`,
+            {params: {q: query, page_size: pageSize}},
+        );
+    }
 
-        const promises = addons.map(addon =>
-            this.client.post(
-                `/api/components/${this.project}/${componentSlug}/addons/`,
-                {name: addon.name, configuration: addon.configuration},
-            ),
+    /**
+     * Installs missing addons of the component, updates their configuration
+     * and removes addons that are not in the desired set
+     *
+     * @param params - Component and its desired addons
+     * @param params.name - Component name
+     * @param params.categorySlug - Full slug of the component category
+     * @param params.component - Component found before, it's requested when not passed
+     * @param params.addonsType - Branch type of the component
+     * @param params.fileFormat - File format of the component
+     * @param params.extraAddons - Addons from the component settings
+     * @returns Names of changed addons
+     */
+    async reconcileComponentAddons({
+        name,
+        categorySlug,
+        component: knownComponent,
+        addonsType = 'pull-request',
+        fileFormat = this.fileFormat,
+        extraAddons = [],
+    }: {
+        name: string;
+        categorySlug?: string;
+        component?: Component;
+        addonsType?: 'main-branch' | 'pull-request';
+        fileFormat?: string;
+        extraAddons?: AddonSettings[];
+    }): Promise<AddonsReport> {
+        const componentSlug = getComponentSlug({name, categorySlug});
+        const desiredAddons = this.getDesiredAddons(
+            addonsType,
+            fileFormat,
+            extraAddons,
+        );
+        const component =
+            knownComponent ?? (await this.findComponent({name, categorySlug}));
+        const installedAddons = await Promise.all(
+            (component?.addons ?? []).map(id => this.getAddon(id)),
         );
+        const report: AddonsReport = {installed: [], updated: [], removed: []};
+        const keptAddonNames = new Set<string>();
+        const managedAddonNames = this.getManagedAddonNames();
+
+        for (const addon of installedAddons) {
+            const desiredAddon = desiredAddons.get(addon.name);
+            const isDuplicate = keptAddonNames.has(addon.name);
+
+            if (!desiredAddon || isDuplicate) {
+                // Addons installed by hand in Weblate are kept without pruning
+                if (
+                    !this.addons.prune &&
+                    !isDuplicate &&
+                    !managedAddonNames.has(addon.name)
+                ) {
+                    continue;
+                }
 
-        try {
-            await Promise.all(promises);
-        } catch (error) {
-            // Ignore error like 'Add-on already installed'
+                report.removed.push(addon.name);
+
+                if (this.plan) {
+                    this.plan.add({
+                        type: 'remove-addon',
+                        component: name,
+                        categorySlug,
+                        addon: addon.name,
+                    });
+                } else {
+                    await this.client.delete(`/api/addons/${addon.id}/`);
+                }
+                continue;
+            }
+
+            keptAddonNames.add(addon.name);
+
+            // Weblate fills defaults, so only the desired options are compared
             if (
-                !isAxiosError(error) ||
-                !error.response?.data ||
-                !('name' in error.response.data)
+                !isMatch(
+                    addon.configuration ?? {},
+                    desiredAddon.configuration ?? {},
+                )
             ) {
-                throw error;
+                report.updated.push(addon.name);
+
+                if (this.plan) {
+                    this.plan.add({
+                        type: 'update-addon',
+                        component: name,
+                        categorySlug,
+                        addon: addon.name,
+                        configuration: desiredAddon.configuration,
+                    });
+                } else {
+                    await this.client.patch(`/api/addons/${addon.id}/`, {
+                        configuration: {
+                            ...addon.configuration,
+                            ...desiredAddon.configuration,
+                        },
+                    });
+                }
+            }
+        }
+
+        for (const addon of desiredAddons.values()) {
+            if (keptAddonNames.has(addon.name)) {
+                continue;
             }
+
+            report.installed.push(addon.name);
+
+            if (this.plan) {
+                this.plan.add({
+                    type: 'install-addon',
+                    component: name,
+                    categorySlug,
+                    addon: addon.name,
+                    configuration: addon.configuration,
+                });
+            } else {
+                await this.client.post(
+                    `/api/components/${this.project}/${componentSlug}/addons/`,
+                    {name: addon.name, configuration: addon.configuration},
+                );
+            }
+        }
+
+        const changes = (
+            [
+                ['installed', report.installed],
+                ['updated', report.updated],
+                ['removed', report.removed],
+            ] as const
+        )
+            .filter(([, addonNames]) => addonNames.length)
+            .map(
+                ([action, addonNames]) => `${action} ${addonNames.join(', ')}`,
+            );
+
+        if (changes.length && !this.plan) {
+            console.log(
+                `Addons of '${
+                    categorySlug ? `${categorySlug}/${name}` : name
+                }': ${changes.join('; ')}`,
+            );
         }
+
+        return report;
     }
 
-    async getAddonName(id: string) {
-        return (await this.client.get<{name: string}>(`/api/addons/${id}/`))
-            .name;
+    getAddon(id: string) {
+        return this.client.get<Addon>(`/api/addons/${id}/`);
     }
 
     getComponentRepository({
@@ -505,27 +932,16 @@ export class Weblate {
         );
     }
 
-    async isComponentTaskCompleted({
-        name,
-        categorySlug,
-    }: {
-        name: string;
-        categorySlug?: string;
-    }) {
-        const component = await this.findComponent({name, categorySlug});
-
-        if (!component?.task_url) {
-            return true;
-        }
-
+    async isTaskCompleted(taskId: string) {
         try {
             return (
                 await this.client.get<{completed: boolean}>(
-                    `/api/tasks/${component.task_url}/`,
+                    `/api/tasks/${taskId}/`,
                 )
             ).completed;
         } catch (error) {
-            if (isAxiosError(error) && error.response?.status === 404) {
+            // Finished tasks are removed after a while
+            if (error instanceof WeblateNotFoundError) {
                 return true;
             }
             throw error;
@@ -533,33 +949,279 @@ export class Weblate {
     }
 
     async waitComponentsTasks({
-        componentNames,
-        categorySlug,
+        components,
     }: {
-        componentNames: string[];
-        categorySlug?: string;
+        components: Array<{name: string; categorySlug?: string}>;
     }) {
-        const maxTries = 50;
-        const sleepTime = 10000;
-        let tries = 0;
-
-        while (tries < maxTries) {
-            const locks = await Promise.all(
-                componentNames.map(name =>
-                    this.isComponentTaskCompleted({name, categorySlug}),
-                ),
+        // Nothing was changed in Weblate, so there are no tasks to wait for
+        if (this.plan) {
+            return;
+        }
+
+        const {timeout} = this.taskWait;
+        const startedAt = Date.now();
+        // Components are requested once for their tasks, then only unfinished tasks are polled
+        const taskIds = await this.mapComponents(
+            'get tasks of',
+            components,
+            async ({name, categorySlug}) =>
+                (await this.findComponent({name, categorySlug}))?.task_url,
+        );
+        let pendingTasks = components.flatMap(({name, categorySlug}, index) => {
+            const taskId = taskIds[index];
+
+            return taskId ? [{name, categorySlug, taskId}] : [];
+        });
+
+        for (let round = 1; pendingTasks.length; round++) {
+            const completed = await this.mapComponents(
+                'check tasks of',
+                pendingTasks,
+                ({taskId}) => this.isTaskCompleted(taskId),
+            );
+            pendingTasks = pendingTasks.filter(
+                (_task, index) => !completed[index],
+            );
+
+            console.log(
+                `Weblate tasks: ${formatTasksProgress(
+                    components.length,
+                    pendingTasks,
+                )}`,
+            );
+
+            const elapsed = Date.now() - startedAt;
+
+            if (pendingTasks.length && elapsed >= timeout) {
+                throw Error(
+                    formatTasksTimeoutError(
+                        this.serverUrl,
+                        timeout,
+                        components.length,
+                        pendingTasks,
+                    ),
+                );
+            }
+
+            if (pendingTasks.length) {
+                await sleep(
+                    Math.min(
+                        getPollDelay(round, this.taskWait),
+                        timeout - elapsed,
+                    ),
+                );
+            }
+        }
+    }
+
+    private getDesiredAddons(
+        addonsType: 'main-branch' | 'pull-request',
+        fileFormat: string,
+        extraAddons: AddonSettings[],
+    ) {
+        const configuredAddons =
+            addonsType === 'pull-request'
+                ? this.addons.pull_request
+                : this.addons.main_branch;
+
+        // Later settings of the same addon win, e.g. the ones of the component
+        return new Map(
+            [
+                ...(configuredAddons ?? [
+                    ...(addonsType === 'pull-request'
+                        ? DEFAULT_COMPONENT_ADDONS
+                        : MAIN_BRANCH_COMPONENT_ADDONS),
+                    ...getFileFormat(fileFormat).addons,
+                ]),
+                ...extraAddons,
+            ].map(addon => [addon.name, addon]),
+        );
+    }
+
+    // Addons the action may have installed, stale ones are removed without pruning
+    private getManagedAddonNames() {
+        return new Set(
+            [
+                ...DEFAULT_COMPONENT_ADDONS,
+                ...MAIN_BRANCH_COMPONENT_ADDONS,
+                ...(this.addons.main_branch ?? []),
+                ...(this.addons.pull_request ?? []),
+            ]
+                .map(({name}) => name)
+                .concat(FILE_FORMAT_ADDON_NAMES),
+        );
+    }
+
+    private async *iterateCategories() {
+        let page = 1;
+
+        while (page) {
+            const {next, results} = await this.client.get<Paginated<Category>>(
+                `/api/projects/${this.project}/categories/`,
+                {
+                    params: {page, page_size: 1000},
+                },
             );
 
-            if (locks.every(Boolean)) {
-                return;
+            yield* results.filter(
+                ({id}) => !this.plannedRemovedCategoryIds.has(id),
+            );
+
+            if (next) {
+                page = next;
+            } else {
+                break;
+            }
+        }
+    }
+
+    private invalidateComponentsCache() {
+        this.componentsCache.clear();
+        this.componentsCacheIsComplete = false;
+        this.componentsCacheVersion++;
+    }
+
+    private async getComponentsInCategories(categoryIds: string[]) {
+        // Planned categories don't exist in Weblate yet
+        const existingCategoryIds = categoryIds.filter(
+            categoryId => !categoryId.startsWith(PLANNED_ID_PREFIX),
+        );
+        const cacheVersion = this.componentsCacheVersion;
+        const componentsByCategory = new Map(this.componentsCache);
+        const missingCategoryIds = this.componentsCacheIsComplete
+            ? []
+            : existingCategoryIds.filter(
+                  categoryId => !componentsByCategory.has(categoryId),
+              );
+
+        if (missingCategoryIds.length) {
+            const fetchedComponents =
+                (await this.fetchComponentsInCategories(missingCategoryIds)) ??
+                (await this.fetchAllComponents());
+
+            for (const [categoryId, components] of fetchedComponents) {
+                componentsByCategory.set(categoryId, components);
+
+                if (cacheVersion === this.componentsCacheVersion) {
+                    this.componentsCache.set(categoryId, components);
+                }
+            }
+
+            // Categories without components are missing in the full listing
+            for (const categoryId of missingCategoryIds) {
+                if (!componentsByCategory.has(categoryId)) {
+                    componentsByCategory.set(categoryId, []);
+                }
+            }
+
+            if (
+                this.categoryFilterSupported === false &&
+                cacheVersion === this.componentsCacheVersion
+            ) {
+                this.componentsCacheIsComplete = true;
             }
+        }
 
-            tries++;
-            await sleep(sleepTime);
+        return existingCategoryIds.flatMap(
+            categoryId => componentsByCategory.get(categoryId) ?? [],
+        );
+    }
+
+    // Undefined if Weblate doesn't support filtering by category
+    private async fetchComponentsInCategories(categoryIds: string[]) {
+        if (this.categoryFilterSupported === false) {
+            return undefined;
         }
 
-        throw new Error(
-            `Long wait for unlocking components in category '${categorySlug}'`,
+        const [firstCategoryId, ...otherCategoryIds] = categoryIds;
+        // The first response shows whether the filter is supported
+        const firstComponents =
+            await this.fetchComponentsInCategory(firstCategoryId);
+
+        if (!firstComponents) {
+            return undefined;
+        }
+
+        const otherComponents = await Promise.all(
+            otherCategoryIds.map(categoryId =>
+                this.fetchComponentsInCategory(categoryId),
+            ),
         );
+
+        if (otherComponents.some(components => !components)) {
+            return undefined;
+        }
+
+        return new Map(
+            categoryIds.map((categoryId, index) => [
+                categoryId,
+                index ? otherComponents[index - 1] ?? [] : firstComponents,
+            ]),
+        );
+    }
+
+    private async fetchComponentsInCategory(categoryId: string) {
+        const components: Component[] = [];
+        let page = 1;
+
+        while (page) {
+            const {next, results} = await this.client.get<Paginated<Component>>(
+                `/api/projects/${this.project}/components/`,
+                {
+                    params: {page, category: categoryId},
+                },
+            );
+
+            if (results.some(({category}) => category !== categoryId)) {
+                this.categoryFilterSupported = false;
+                return undefined;
+            }
+
+            if (results.length) {
+                this.categoryFilterSupported = true;
+            }
+
+            components.push(...results);
+
+            if (next) {
+                page = next;
+            } else {
+                break;
+            }
+        }
+
+        return components;
+    }
+
+    // Lists components of the whole project grouped by category id
+    private async fetchAllComponents() {
+        const componentsByCategory = new Map<string, Component[]>();
+        let page = 1;
+
+        while (page) {
+            const {next, results} = await this.client.get<Paginated<Component>>(
+                `/api/projects/${this.project}/components/`,
+                {
+                    params: {page},
+                },
+            );
+
+            for (const component of results) {
+                if (component.category) {
+                    componentsByCategory.set(component.category, [
+                        ...(componentsByCategory.get(component.category) ?? []),
+                        component,
+                    ]);
+                }
+            }
+
+            if (next) {
+                page = next;
+            } else {
+                break;
+            }
+        }
+
+        return componentsByCategory;
     }
 }
@@ -1,7 +1,14 @@
 import fs from 'fs/promises';
 import {glob} from 'glob';
 import path from 'path';
-import {resolveComponents} from './utils';
+import {
+    formatComponentName,
+    getGlobCaptures,
+    getLanguageFilePath,
+    getLanguageFromPath,
+    parsePullRequestCategoryName,
+    resolveComponents,
+} from './utils';
 
 // Mock dependencies
 jest.mock('fs/promises');
@@ -291,6 +298,279 @@ describe('resolveComponents', () => {
         });
     });
 
+    describe('Layouts', () => {
+        const file = (name: string) =>
+            ({name, isDirectory: () => false, isFile: () => true}) as any;
+        const dir = (name: string) =>
+            ({name, isDirectory: () => true, isFile: () => false}) as any;
+
+        it('should resolve components from language directories', async () => {
+            const keysetsPath = 'src/locales';
+
+            mockedFs.readdir.mockResolvedValue([
+                file('common.json'),
+                file('errors.json'),
+                file('readme.md'),
+                dir('nested'),
+            ]);
+
+            const result = await resolveComponents(keysetsPath, mainLanguage, {
+                layout: 'language-dir',
+            });
+
+            expect(mockedFs.readdir).toHaveBeenCalledWith(
+                path.resolve('/test/project', keysetsPath, 'en'),
+                {withFileTypes: true},
+            );
+            expect(result).toEqual([
+                {
+                    name: 'common',
+                    source: path.join(keysetsPath, 'en', 'common.json'),
+                    fileMask: path.join(keysetsPath, '*', 'common.json'),
+                },
+                {
+                    name: 'errors',
+                    source: path.join(keysetsPath, 'en', 'errors.json'),
+                    fileMask: path.join(keysetsPath, '*', 'errors.json'),
+                },
+            ]);
+        });
+
+        it('should resolve components from language suffixes', async () => {
+            const keysetsPath = 'src/i18n';
+
+            mockedFs.readdir.mockResolvedValue([
+                file('common.en.json'),
+                file('common.ru.json'),
+                file('errors.en.json'),
+                file('en.json'),
+                file('legacy.ru.json'),
+            ]);
+
+            const result = await resolveComponents(keysetsPath, mainLanguage, {
+                layout: 'component-suffix',
+            });
+
+            expect(result).toEqual([
+                {
+                    name: 'common',
+                    source: path.join(keysetsPath, 'common.en.json'),
+                    fileMask: path.join(keysetsPath, 'common.*.json'),
+                },
+                {
+                    name: 'errors',
+                    source: path.join(keysetsPath, 'errors.en.json'),
+                    fileMask: path.join(keysetsPath, 'errors.*.json'),
+                },
+            ]);
+        });
+
+        it('should resolve a single component from language files', async () => {
+            const keysetsPath = 'packages/ui/locales';
+
+            mockedFs.readdir.mockResolvedValue([
+                file('en.json'),
+                file('ru.json'),
+            ]);
+
+            const result = await resolveComponents(keysetsPath, mainLanguage, {
+                layout: 'language-file',
+            });
+
+            expect(result).toEqual([
+                {
+                    name: 'locales',
+                    source: path.join(keysetsPath, 'en.json'),
+                    fileMask: path.join(keysetsPath, '*.json'),
+                },
+            ]);
+        });
+
+        it('should resolve components from Android resources', async () => {
+            const keysetsPath = 'app/src/main/res';
+
+            mockedFs.readdir.mockResolvedValue([
+                file('strings.xml'),
+                file('plurals.xml'),
+                file('.hidden.xml'),
+            ]);
+
+            const result = await resolveComponents(keysetsPath, mainLanguage, {
+                layout: 'android-values',
+                extension: 'xml',
+            });
+
+            expect(mockedFs.readdir).toHaveBeenCalledWith(
+                path.resolve('/test/project', keysetsPath, 'values'),
+                {withFileTypes: true},
+            );
+            expect(result).toEqual([
+                {
+                    name: 'strings',
+                    source: path.join(keysetsPath, 'values', 'strings.xml'),
+                    fileMask: path.join(keysetsPath, 'values-*', 'strings.xml'),
+                },
+                {
+                    name: 'plurals',
+                    source: path.join(keysetsPath, 'values', 'plurals.xml'),
+                    fileMask: path.join(keysetsPath, 'values-*', 'plurals.xml'),
+                },
+            ]);
+        });
+
+        it('should resolve components from Java resource bundles', async () => {
+            const keysetsPath = 'src/main/resources';
+
+            mockedFs.readdir.mockResolvedValue([
+                file('messages.properties'),
+                file('messages_de.properties'),
+                file('messages_pt_BR.properties'),
+                file('error_codes.properties'),
+                file('error_codes_de.properties'),
+            ]);
+
+            const result = await resolveComponents(keysetsPath, mainLanguage, {
+                layout: 'resource-bundle',
+                extension: 'properties',
+            });
+
+            expect(result).toEqual([
+                {
+                    name: 'messages',
+                    source: path.join(keysetsPath, 'messages.properties'),
+                    fileMask: path.join(keysetsPath, 'messages_*.properties'),
+                },
+                {
+                    name: 'error_codes',
+                    source: path.join(keysetsPath, 'error_codes.properties'),
+                    fileMask: path.join(
+                        keysetsPath,
+                        'error_codes_*.properties',
+                    ),
+                },
+            ]);
+        });
+
+        it('should skip directories without the main language file', async () => {
+            mockedFs.readdir.mockResolvedValue([file('ru.json')]);
+
+            const result = await resolveComponents(
+                'packages/ui/locales',
+                mainLanguage,
+                {layout: 'language-file'},
+            );
+
+            expect(result).toEqual([]);
+        });
+
+        it('should name glob-matched packages in language-file layout', async () => {
+            const keysetsPath = 'packages/*/locales';
+
+            mockedGlob.mockResolvedValue([
+                'packages/ui/locales',
+                'packages/forms/locales',
+            ] as any);
+            mockedFs.readdir.mockResolvedValue([file('en.json')]);
+
+            const result = await resolveComponents(keysetsPath, mainLanguage, {
+                layout: 'language-file',
+            });
+
+            expect(result.map(({name}) => name)).toEqual(['ui', 'forms']);
+            expect(result[1].fileMask).toBe(
+                path.join('packages/forms/locales', '*.json'),
+            );
+        });
+
+        it('should prefix glob-matched components in language-dir layout', async () => {
+            const keysetsPath = 'apps/*/i18n';
+
+            mockedGlob.mockResolvedValue(['apps/admin/i18n'] as any);
+            mockedFs.readdir.mockResolvedValue([file('common.json')]);
+
+            const result = await resolveComponents(keysetsPath, mainLanguage, {
+                layout: 'language-dir',
+            });
+
+            expect(result).toEqual([
+                {
+                    name: 'admin_common',
+                    source: path.join('apps/admin/i18n', 'en', 'common.json'),
+                    fileMask: path.join('apps/admin/i18n', '*', 'common.json'),
+                },
+            ]);
+        });
+    });
+
+    describe('Name template', () => {
+        it('should name components using glob captures', async () => {
+            const keysetsPath = 'apps/*/i18n';
+
+            mockedGlob.mockResolvedValue([
+                'apps/admin/i18n',
+                'apps/site/i18n',
+            ] as any);
+            mockedFs.readdir.mockResolvedValue([
+                {name: 'common', isDirectory: () => true} as any,
+            ]);
+
+            const result = await resolveComponents(keysetsPath, mainLanguage, {
+                nameTemplate: '{package}-{component}',
+            });
+
+            expect(result.map(({name}) => name)).toEqual([
+                'admin-common',
+                'site-common',
+            ]);
+        });
+
+        it('should group glob-matched components by package', async () => {
+            mockedGlob.mockResolvedValue([
+                'projects/app-a/src/i18n-keysets',
+            ] as any);
+            mockedFs.readdir.mockResolvedValue([
+                {name: 'common', isDirectory: () => true} as any,
+            ]);
+
+            const result = await resolveComponents(
+                'projects/*/src/i18n-keysets',
+                mainLanguage,
+                {groupByPackage: true},
+            );
+
+            expect(result).toEqual([
+                {
+                    name: 'common',
+                    group: 'app-a',
+                    source: path.join(
+                        'projects/app-a/src/i18n-keysets',
+                        'common',
+                        'en.json',
+                    ),
+                    fileMask: path.join(
+                        'projects/app-a/src/i18n-keysets',
+                        'common',
+                        '*.json',
+                    ),
+                },
+            ]);
+        });
+
+        it('should fail on placeholders without captures', async () => {
+            mockedFs.readdir.mockResolvedValue([
+                {name: 'common', isDirectory: () => true} as any,
+            ]);
+
+            await expect(
+                resolveComponents('src/i18n-keysets', mainLanguage, {
+                    nameTemplate: '{1}_{component}',
+                }),
+            ).rejects.toThrow(
+                "Unknown placeholder {1} in component name template '{1}_{component}'",
+            );
+        });
+    });
+
     describe('Edge cases', () => {
         it('should handle paths with special characters', async () => {
             const keysetsPath = 'src/i18n-keysets-v2';
@@ -324,3 +604,89 @@ describe('resolveComponents', () => {
         });
     });
 });
+
+describe('parsePullRequestCategoryName', () => {
+    it('should parse branch name and pull request number', () => {
+        expect(parsePullRequestCategoryName('feature/button__123')).toEqual({
+            branchName: 'feature/button',
+            pullRequestNumber: 123,
+        });
+    });
+
+    it('should use the last separator for branch names with underscores', () => {
+        expect(parsePullRequestCategoryName('fix__typo__7')).toEqual({
+            branchName: 'fix__typo',
+            pullRequestNumber: 7,
+        });
+    });
+
+    it('should return undefined for categories of long-lived branches', () => {
+        expect(parsePullRequestCategoryName('main')).toBeUndefined();
+        expect(parsePullRequestCategoryName('release__next')).toBeUndefined();
+    });
+});
+
+describe('getLanguageFilePath', () => {
+    it('should replace the language part of the file mask', () => {
+        expect(getLanguageFilePath('src/i18n/*/common.json', 'de')).toBe(
+            'src/i18n/de/common.json',
+        );
+        expect(getLanguageFilePath('src/i18n/common.*.json', 'de')).toBe(
+            'src/i18n/common.de.json',
+        );
+    });
+});
+
+describe('getLanguageFromPath', () => {
+    it('should extract the language part of the path', () => {
+        expect(
+            getLanguageFromPath(
+                'src/i18n/*/common.json',
+                'src/i18n/pt-BR/common.json',
+            ),
+        ).toBe('pt-BR');
+        expect(
+            getLanguageFromPath(
+                'src/i18n/common.*.json',
+                'src/i18n/common.zh-Hans.json',
+            ),
+        ).toBe('zh-Hans');
+    });
+
+    it('should return undefined for paths not matching the file mask', () => {
+        expect(
+            getLanguageFromPath('src/i18n/*.json', 'src/keysets/en.json'),
+        ).toBeUndefined();
+        expect(
+            getLanguageFromPath('src/i18n/*.json', 'src/i18n/.json'),
+        ).toBeUndefined();
+    });
+});
+
+describe('getGlobCaptures', () => {
+    it('should capture segments matched by wildcards', () => {
+        expect(
+            getGlobCaptures(
+                'packages/*/src/*/locales',
+                'packages/ui/src/v2/locales',
+            ),
+        ).toEqual(['ui', 'v2']);
+    });
+
+    it('should capture all segments matched by globstar', () => {
+        expect(
+            getGlobCaptures('apps/*/**/i18n', 'apps/admin/pages/users/i18n'),
+        ).toEqual(['admin', 'pages/users']);
+    });
+});
+
+describe('formatComponentName', () => {
+    it('should replace placeholders', () => {
+        expect(
+            formatComponentName('{2}_{1}_{component}', {
+                component: 'common',
+                captures: ['admin', 'v2'],
+            }),
+        ).toBe('v2_admin_common');
+    });
+});
@@ -1,14 +1,150 @@
-import fs from 'fs/promises';
 import {glob} from 'glob';
 import path from 'path';
+import {layoutStrategies} from './lib/layouts';
+import type {KeysetsLayout, LayoutComponent} from './lib/layouts/layouts';
+import type {ComponentSettings} from './lib/repository-config/types';
 
 export const sleep = (time: number) =>
     new Promise(resolve => setTimeout(resolve, time));
 
+export const getPullRequestCategoryName = (
+    branchName: string,
+    pullRequestNumber?: number,
+) => `${branchName}__${pullRequestNumber}`;
+
+/**
+ * Parses the category name created for a pull request
+ *
+ * @param categoryName - Category name (e.g., "feature/button__123")
+ * @returns Branch name and pull request number or undefined for other categories
+ */
+export const parsePullRequestCategoryName = (categoryName: string) => {
+    const match = categoryName.match(/^(.+)__(\d+)$/);
+
+    if (!match) {
+        return undefined;
+    }
+
+    return {
+        branchName: match[1],
+        pullRequestNumber: parseInt(match[2], 10),
+    };
+};
+
 export type ComponentInCode = {
     name: string;
     source: string;
     fileMask: string;
+    // Nested category of the component in the branch category
+    group?: string;
+    // Settings from the repository config file
+    settings?: ComponentSettings;
+};
+
+/**
+ * Returns path of the language file of the component
+ *
+ * @param fileMask - File mask of the component (e.g., "src/i18n-keysets/common/*.json")
+ * @param language - Language code (e.g., "en")
+ * @returns Path to the language file (e.g., "src/i18n-keysets/common/en.json")
+ */
+export const getLanguageFilePath = (fileMask: string, language: string) =>
+    fileMask.replace('*', language);
+
+/**
+ * Extracts the language code from the path of the translation file
+ *
+ * @param fileMask - File mask with "*" instead of the language (e.g., "i18n/common/*.json")
+ * @param filePath - Path matched by the file mask (e.g., "i18n/common/pt-BR.json")
+ * @returns Language code or undefined if the path doesn't match the file mask
+ */
+export const getLanguageFromPath = (fileMask: string, filePath: string) => {
+    const [prefix, suffix] = fileMask.split('*');
+
+    if (
+        suffix === undefined ||
+        filePath.length <= prefix.length + suffix.length ||
+        !filePath.startsWith(prefix) ||
+        !filePath.endsWith(suffix)
+    ) {
+        return undefined;
+    }
+
+    return filePath.slice(prefix.length, filePath.length - suffix.length);
+};
+
+const hasGlobMagic = (pattern: string) =>
+    pattern.includes('*') || pattern.includes('?') || pattern.includes('[');
+
+/**
+ * Extracts path segments matched by wildcard segments of the glob pattern
+ *
+ * @param pattern - Glob pattern (e.g., "apps/*\/i18n")
+ * @param matchedPath - Path matched by the pattern (e.g., "apps/admin/i18n")
+ * @returns Matched segments in order (e.g., ["admin"]), "**" captures all its segments
+ */
+export const getGlobCaptures = (pattern: string, matchedPath: string) => {
+    const patternParts = pattern.split('/').filter(Boolean);
+    const pathParts = matchedPath.split(/[\\/]/).filter(Boolean);
+    const globstarIndex = patternParts.indexOf('**');
+
+    const capture = (parts: string[], offset: number) =>
+        parts.flatMap((part, index) =>
+            hasGlobMagic(part) ? [pathParts[offset + index]] : [],
+        );
+
+    if (globstarIndex === -1) {
+        return capture(patternParts, 0);
+    }
+
+    const prefix = patternParts.slice(0, globstarIndex);
+    const suffix = patternParts.slice(globstarIndex + 1);
+    const suffixOffset = pathParts.length - suffix.length;
+
+    return [
+        ...capture(prefix, 0),
+        pathParts.slice(prefix.length, suffixOffset).join('/'),
+        ...capture(suffix, suffixOffset),
+    ];
+};
+
+/**
+ * Builds component name from the template
+ *
+ * @param template - Name template (e.g., "{1}_{component}")
+ * @param values - Values for placeholders
+ * @param values.component - Component name resolved by the layout
+ * @param values.captures - Glob captures, "{1}" is the first one, "{package}" is an alias for it
+ * @returns Component name
+ */
+export const formatComponentName = (
+    template: string,
+    {component, captures}: {component: string; captures: string[]},
+) =>
+    template.replace(/\{(\w+)\}/g, (placeholder, key: string) => {
+        if (key === 'component') {
+            return component;
+        }
+
+        const index = key === 'package' ? 1 : Number(key);
+
+        if (!Number.isInteger(index) || index < 1 || index > captures.length) {
+            throw Error(
+                `Unknown placeholder ${placeholder} in component name template '${template}'`,
+            );
+        }
+
+        return captures[index - 1];
+    });
+
+export type ResolveComponentsOptions = {
+    layout?: KeysetsLayout;
+    // Extension of keyset files without the dot
+    extension?: string;
+    // Component name template, e.g. "{1}_{component}"
+    nameTemplate?: string;
+    // Put components of each glob-matched directory into a nested category
+    groupByPackage?: boolean;
 };
 
 /**
@@ -17,19 +153,29 @@ export type ComponentInCode = {
  *
  * @param keysetsPath - Path or glob pattern (e.g., "projects/*\/src/i18n-keysets")
  * @param mainLanguage - Main language code (e.g., "en")
+ * @param options - Resolving options
+ * @param options.layout - Layout of the keyset files in the directory
+ * @param options.extension - Extension of the keyset files (e.g., "json")
+ * @param options.nameTemplate - Component name template (e.g., "{1}_{component}")
+ * @param options.groupByPackage - Group components by glob-matched directories instead of name prefixes
  * @returns Array of components found
  */
 export const resolveComponents = async (
     keysetsPath: string,
     mainLanguage: string,
+    {
+        layout = 'component-dir',
+        extension = 'json',
+        nameTemplate,
+        groupByPackage = false,
+    }: ResolveComponentsOptions = {},
 ): Promise<ComponentInCode[]> => {
     const components: ComponentInCode[] = [];
+    const resolveLayout = (dir: string) =>
+        layoutStrategies[layout](dir, {mainLanguage, extension});
 
     // Проверяем, является ли путь глоб-паттерном
-    const isGlobPattern =
-        keysetsPath.includes('*') ||
-        keysetsPath.includes('?') ||
-        keysetsPath.includes('[');
+    const isGlobPattern = hasGlobMagic(keysetsPath);
 
     if (isGlobPattern) {
         console.log(`🔍 Glob pattern detected: ${keysetsPath}`);
@@ -47,47 +193,65 @@ export const resolveComponents = async (
 
         // Обрабатываем каждую найденную директорию
         for (const dir of matchedDirs) {
+            let layoutComponents: LayoutComponent[];
+
             try {
-                const resolvedPath = path.resolve(process.cwd(), dir);
-                const dirents = await fs.readdir(resolvedPath, {
-                    withFileTypes: true,
-                });
-
-                // Извлекаем имя родительской директории для префикса
-                // Например: projects/yandex/src/i18n-keysets -> yandex
-                const pathParts = dir.split(path.sep);
-                // Находим индекс 'projects' и берем следующий элемент
-                const projectsIndex = pathParts.indexOf('projects');
-                const parentDirName =
-                    projectsIndex !== -1 && projectsIndex + 1 < pathParts.length
-                        ? pathParts[projectsIndex + 1]
-                        : pathParts[pathParts.length - 2] ||
-                          path.basename(path.dirname(dir));
-
-                const dirComponents = dirents
-                    .filter(
-                        dirent =>
-                            dirent.isDirectory() &&
-                            !dirent.name.startsWith('.'),
-                    )
-                    .map(({name}) => ({
-                        // Добавляем префикс из родительской директории для уникальности
-                        name: `${parentDirName}_${name}`,
-                        source: path.join(dir, name, `${mainLanguage}.json`),
-                        fileMask: path.join(dir, name, '*.json'),
-                    }));
-
-                components.push(...dirComponents);
-                console.log(
-                    `  ✅ ${dir}: found ${dirComponents.length} component(s)`,
-                );
-                console.log(
-                    `  📋 Components:`,
-                    dirComponents.map(c => c.name).join(', '),
-                );
+                layoutComponents = await resolveLayout(dir);
             } catch (error) {
                 console.warn(`  ⚠️ Failed to read directory ${dir}:`, error);
+                continue;
             }
+
+            // Извлекаем имя родительской директории для префикса
+            // Например: projects/yandex/src/i18n-keysets -> yandex
+            const pathParts = dir.split(path.sep);
+            // Находим индекс 'projects' и берем следующий элемент
+            const projectsIndex = pathParts.indexOf('projects');
+            const parentDirName =
+                projectsIndex !== -1 && projectsIndex + 1 < pathParts.length
+                    ? pathParts[projectsIndex + 1]
+                    : pathParts[pathParts.length - 2] ||
+                      path.basename(path.dirname(dir));
+            const captures = getGlobCaptures(keysetsPath, dir);
+
+            const dirComponents = layoutComponents.map(component => {
+                const group = groupByPackage ? parentDirName : undefined;
+
+                if (nameTemplate) {
+                    return {
+                        ...component,
+                        name: formatComponentName(nameTemplate, {
+                            component: component.name,
+                            captures,
+                        }),
+                        group,
+                    };
+                }
+
+                // The nested category makes the name unique
+                if (groupByPackage) {
+                    return {...component, group};
+                }
+
+                return {
+                    ...component,
+                    // Добавляем префикс из родительской директории для уникальности
+                    // The whole directory is a component in 'language-file' layout
+                    name:
+                        layout === 'language-file'
+                            ? parentDirName
+                            : `${parentDirName}_${component.name}`,
+                };
+            });
+
+            components.push(...dirComponents);
+            console.log(
+                `  ✅ ${dir}: found ${dirComponents.length} component(s)`,
+            );
+            console.log(
+                `  📋 Components:`,
+                dirComponents.map(c => c.name).join(', '),
+            );
         }
 
         console.log(`✨ Total components found: ${components.length}`);
@@ -95,26 +259,18 @@ export const resolveComponents = async (
         // Оригинальная логика для конкретного пути
         console.log(`📂 Direct path: ${keysetsPath}`);
 
-        const resolvedPath = path.resolve(process.cwd(), keysetsPath);
-        const dirents = await fs.readdir(resolvedPath, {
-            withFileTypes: true,
-        });
+        const layoutComponents = await resolveLayout(keysetsPath);
 
         components.push(
-            ...dirents
-                .filter(
-                    dirent =>
-                        dirent.isDirectory() && !dirent.name.startsWith('.'),
-                )
-                .map(({name}) => ({
-                    name,
-                    source: path.join(
-                        keysetsPath,
-                        name,
-                        `${mainLanguage}.json`,
-                    ),
-                    fileMask: path.join(keysetsPath, name, '*.json'),
-                })),
+            ...(nameTemplate
+                ? layoutComponents.map(component => ({
+                      ...component,
+                      name: formatComponentName(nameTemplate, {
+                          component: component.name,
+                          captures: [],
+                      }),
+                  }))
+                : layoutComponents),
         );
 
         console.log(